@@ -0,0 +1,404 @@
+// Composable for the buzzer: players buzz in from their phones over WebRTC data channels
+//
+// The presenter hosts one peer connection per player. Each starts as an invite (an offer code or QR
+// code of the join link) and becomes a player once their answer code is accepted and they say hello.
+// The game store decides who gets to answer; the host tells every player whether buzzing is open.
+// Two tabs of the same browser can skip the codes: the player page asks the host over a
+// BroadcastChannel instead, a stand-in for real signalling when trying the buzzer out.
+
+import { ref, readonly, watch, effectScope } from 'vue'
+import { useGameStore } from '@/stores/game'
+import { useScoringStore } from '@/stores/scoring'
+import {
+  createPeerConnection,
+  waitForIceGathering,
+  encodeSignal,
+  decodeSignal,
+  buildJoinUrl
+} from '@/services/peerSignal'
+import { generateId } from '@/utils'
+
+export interface BuzzerPlayer {
+  id: string
+  name: string
+  teamId: string | null // Team that scores when the player answers correctly
+  connected: boolean
+}
+
+export interface BuzzerInvite {
+  id: string
+  code: string
+  joinUrl: string
+}
+
+// What a player's phone shows
+export interface BuzzerState {
+  open: boolean // Whether this player may buzz now
+  answeringId: string | null
+  answeringName: string | null
+  lockedOut: boolean // Answered wrongly at this reveal
+}
+
+export type BuzzerPlayerStatus = 'idle' | 'joining' | 'waiting' | 'connected' | 'disconnected'
+
+type PlayerMessage =
+  | { type: 'join'; name: string }
+  | { type: 'buzz' }
+
+type HostMessage =
+  | { type: 'welcome'; playerId: string }
+  | { type: 'state'; state: BuzzerState }
+  | { type: 'result'; correct: boolean; points: number }
+
+type LocalSignal =
+  | { type: 'request-invite'; requestId: string }
+  | { type: 'invite'; requestId: string; inviteId: string; code: string }
+  | { type: 'answer'; inviteId: string; code: string }
+
+interface PeerLink {
+  connection: RTCPeerConnection
+  channel: RTCDataChannel | null
+}
+
+const LOCAL_CHANNEL_NAME = 'name-that-thing-buzzer'
+const DATA_CHANNEL_LABEL = 'buzzer'
+const LOCAL_JOIN_TIMEOUT_MS = 3000
+
+const isSupported = typeof RTCPeerConnection !== 'undefined'
+
+const send = (channel: RTCDataChannel | null, message: PlayerMessage | HostMessage) => {
+  if (channel?.readyState === 'open') {
+    channel.send(JSON.stringify(message))
+  }
+}
+
+const parseMessage = <T>(event: MessageEvent): T | null => {
+  try {
+    return JSON.parse(String(event.data)) as T
+  } catch {
+    return null
+  }
+}
+
+// Host state, shared by the presenter's panel and the game view
+const isHosting = ref(false)
+const players = ref<BuzzerPlayer[]>([])
+const links = new Map<string, PeerLink>() // By invite id, which becomes the player's id
+let localChannel: BroadcastChannel | null = null
+let stopWatchers: (() => void) | null = null
+
+export function useBuzzerHost() {
+  const gameStore = useGameStore()
+  const scoringStore = useScoringStore()
+
+  const getPlayer = (id: string) => players.value.find(player => player.id === id) ?? null
+
+  const updatePlayer = (id: string, changes: Partial<BuzzerPlayer>) => {
+    players.value = players.value.map(player => (player.id === id ? { ...player, ...changes } : player))
+  }
+
+  const getStateFor = (playerId: string): BuzzerState => {
+    const answering = gameStore.answeringBuzz
+    const lockedOut = gameStore.lockedOutPlayerIds.includes(playerId)
+    return {
+      open: gameStore.isBuzzOpen && !lockedOut,
+      answeringId: answering?.playerId ?? null,
+      answeringName: answering?.playerName ?? null,
+      lockedOut
+    }
+  }
+
+  const sendState = (playerId: string) => {
+    send(links.get(playerId)?.channel ?? null, { type: 'state', state: getStateFor(playerId) })
+  }
+
+  const broadcastState = () => {
+    players.value.forEach(player => sendState(player.id))
+  }
+
+  const handleMessage = (id: string, message: PlayerMessage | null) => {
+    if (!message) return
+
+    if (message.type === 'join') {
+      const name = String(message.name).trim().slice(0, 40) || 'Player'
+      // A player named like a team plays for it until the host says otherwise
+      const team = scoringStore.teams.find(candidate => candidate.name.toLowerCase() === name.toLowerCase())
+      const existing = getPlayer(id)
+      if (existing) {
+        updatePlayer(id, { name, connected: true })
+      } else {
+        players.value = [...players.value, { id, name, teamId: team?.id ?? null, connected: true }]
+      }
+      send(links.get(id)?.channel ?? null, { type: 'welcome', playerId: id })
+      sendState(id)
+    } else if (message.type === 'buzz') {
+      const player = getPlayer(id)
+      if (!player) return
+      // Players who were too late just get the current state back
+      if (!gameStore.recordBuzz(player.id, player.name)) {
+        sendState(id)
+      }
+    }
+  }
+
+  const closeLink = (id: string) => {
+    const link = links.get(id)
+    link?.channel?.close()
+    link?.connection.close()
+    links.delete(id)
+  }
+
+  /**
+   * Create an invite for one player: an offer code, and a join link to show as a QR code
+   */
+  const createInvite = async (): Promise<BuzzerInvite> => {
+    const id = generateId()
+    const connection = createPeerConnection()
+    const channel = connection.createDataChannel(DATA_CHANNEL_LABEL, { ordered: true })
+    links.set(id, { connection, channel })
+
+    channel.onmessage = (event) => handleMessage(id, parseMessage<PlayerMessage>(event))
+    channel.onclose = () => updatePlayer(id, { connected: false })
+    connection.onconnectionstatechange = () => {
+      if (getPlayer(id)) {
+        updatePlayer(id, { connected: connection.connectionState === 'connected' })
+      }
+    }
+
+    try {
+      await connection.setLocalDescription(await connection.createOffer())
+      await waitForIceGathering(connection)
+      const code = await encodeSignal(connection.localDescription as RTCSessionDescriptionInit)
+      return { id, code, joinUrl: buildJoinUrl(code) }
+    } catch (err) {
+      closeLink(id)
+      throw err
+    }
+  }
+
+  /**
+   * Connect an invite with the answer code the player's phone showed
+   */
+  const acceptAnswer = async (inviteId: string, code: string) => {
+    const link = links.get(inviteId)
+    if (!link) {
+      throw new Error('This invite was cancelled')
+    }
+    await link.connection.setRemoteDescription(await decodeSignal(code, 'answer'))
+  }
+
+  const cancelInvite = (inviteId: string) => {
+    if (!getPlayer(inviteId)) {
+      closeLink(inviteId)
+    }
+  }
+
+  const removePlayer = (id: string) => {
+    closeLink(id)
+    players.value = players.value.filter(player => player.id !== id)
+  }
+
+  const setPlayerTeam = (id: string, teamId: string | null) => {
+    updatePlayer(id, { teamId })
+  }
+
+  /**
+   * Judge the player who is answering and tell them how it went
+   */
+  const resolveBuzz = (correct: boolean, points = 0) => {
+    const buzz = gameStore.resolveBuzz(correct)
+    if (buzz) {
+      send(links.get(buzz.playerId)?.channel ?? null, { type: 'result', correct, points })
+    }
+    return buzz
+  }
+
+  const startHosting = () => {
+    if (!isSupported || isHosting.value) return
+    isHosting.value = true
+
+    // Detached, so closing the panel that started hosting doesn't stop the updates
+    const scope = effectScope(true)
+    scope.run(() => {
+      watch(
+        () => [gameStore.isBuzzOpen, gameStore.answeringBuzz?.id, gameStore.lockedOutPlayerIds.join(',')],
+        broadcastState
+      )
+    })
+    stopWatchers = () => scope.stop()
+
+    if (typeof BroadcastChannel === 'undefined') return
+    localChannel = new BroadcastChannel(LOCAL_CHANNEL_NAME)
+    localChannel.onmessage = async (event: MessageEvent<LocalSignal>) => {
+      const message = event.data
+      try {
+        if (message.type === 'request-invite') {
+          const invite = await createInvite()
+          localChannel?.postMessage({ type: 'invite', requestId: message.requestId, inviteId: invite.id, code: invite.code })
+        } else if (message.type === 'answer') {
+          await acceptAnswer(message.inviteId, message.code)
+        }
+      } catch (err) {
+        console.warn('Failed to connect a player on this device:', err)
+      }
+    }
+  }
+
+  const stopHosting = () => {
+    stopWatchers?.()
+    stopWatchers = null
+    localChannel?.close()
+    localChannel = null
+    Array.from(links.keys()).forEach(closeLink)
+    players.value = []
+    isHosting.value = false
+  }
+
+  return {
+    isSupported,
+    isHosting: readonly(isHosting),
+    players: readonly(players),
+    getPlayer,
+    startHosting,
+    stopHosting,
+    createInvite,
+    acceptAnswer,
+    cancelInvite,
+    removePlayer,
+    setPlayerTeam,
+    resolveBuzz
+  }
+}
+
+/**
+ * Player side, for the page players open on their phones
+ */
+export function useBuzzerPlayer() {
+  const status = ref<BuzzerPlayerStatus>('idle')
+  const answerCode = ref('')
+  const playerId = ref<string | null>(null)
+  const state = ref<BuzzerState | null>(null)
+  const lastResult = ref<{ correct: boolean; points: number } | null>(null)
+  const error = ref<string | null>(null)
+  let link: PeerLink | null = null
+
+  const handleMessage = (message: HostMessage | null) => {
+    if (!message) return
+    if (message.type === 'welcome') {
+      playerId.value = message.playerId
+    } else if (message.type === 'state') {
+      state.value = message.state
+      // A new chance to buzz clears the last verdict
+      if (message.state.open) lastResult.value = null
+    } else if (message.type === 'result') {
+      lastResult.value = { correct: message.correct, points: message.points }
+    }
+  }
+
+  const leave = () => {
+    link?.channel?.close()
+    link?.connection.close()
+    link = null
+    state.value = null
+    status.value = 'idle'
+    answerCode.value = ''
+  }
+
+  /**
+   * Accept the host's invite; the returned answer code goes back to the host
+   */
+  const join = async (name: string, inviteCode: string) => {
+    leave()
+    error.value = null
+    status.value = 'joining'
+
+    try {
+      const connection = createPeerConnection()
+      link = { connection, channel: null }
+
+      connection.ondatachannel = (event) => {
+        const channel = event.channel
+        if (link) link.channel = channel
+        channel.onopen = () => {
+          status.value = 'connected'
+          send(channel, { type: 'join', name })
+        }
+        channel.onmessage = (message) => handleMessage(parseMessage<HostMessage>(message))
+        channel.onclose = () => {
+          status.value = 'disconnected'
+          state.value = null
+        }
+      }
+
+      await connection.setRemoteDescription(await decodeSignal(inviteCode, 'offer'))
+      await connection.setLocalDescription(await connection.createAnswer())
+      await waitForIceGathering(connection)
+      answerCode.value = await encodeSignal(connection.localDescription as RTCSessionDescriptionInit)
+      if (status.value === 'joining') {
+        status.value = 'waiting'
+      }
+      return answerCode.value
+    } catch (err) {
+      leave()
+      error.value = err instanceof Error ? err.message : 'Failed to join the game'
+      throw err
+    }
+  }
+
+  /**
+   * Join a game hosted in another tab of this browser, without exchanging codes
+   */
+  const joinOnThisDevice = (name: string): Promise<void> => {
+    if (typeof BroadcastChannel === 'undefined') {
+      return Promise.reject(new Error('This browser cannot join another tab'))
+    }
+
+    const channel = new BroadcastChannel(LOCAL_CHANNEL_NAME)
+    const requestId = generateId()
+
+    return new Promise<void>((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        channel.close()
+        error.value = 'No game in this browser is taking buzzer players'
+        reject(new Error(error.value))
+      }, LOCAL_JOIN_TIMEOUT_MS)
+
+      channel.onmessage = async (event: MessageEvent<LocalSignal>) => {
+        const message = event.data
+        if (message.type !== 'invite' || message.requestId !== requestId) return
+        clearTimeout(timeout)
+        try {
+          const code = await join(name, message.code)
+          channel.postMessage({ type: 'answer', inviteId: message.inviteId, code })
+          resolve()
+        } catch (err) {
+          reject(err)
+        } finally {
+          channel.close()
+        }
+      }
+
+      channel.postMessage({ type: 'request-invite', requestId })
+    })
+  }
+
+  const buzz = () => {
+    if (state.value?.open) {
+      send(link?.channel ?? null, { type: 'buzz' })
+    }
+  }
+
+  return {
+    isSupported,
+    status: readonly(status),
+    answerCode: readonly(answerCode),
+    playerId: readonly(playerId),
+    state: readonly(state),
+    lastResult: readonly(lastResult),
+    error: readonly(error),
+    join,
+    joinOnThisDevice,
+    buzz,
+    leave
+  }
+}
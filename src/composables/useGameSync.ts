@@ -0,0 +1,148 @@
+// Composable for mirroring the game into an audience window over BroadcastChannel
+
+import { ref, readonly, toRaw, watch } from 'vue'
+import { useGameStore } from '@/stores/game'
+import type { Category, GameImage, GameSyncState } from '@/types'
+
+type SyncMessage =
+  | { type: 'presenter-ready' }
+  | { type: 'audience-joined' }
+  | { type: 'audience-left' }
+  | { type: 'game'; category: Category | null; images: GameImage[] }
+  | { type: 'state'; state: GameSyncState }
+
+const CHANNEL_NAME = 'name-that-thing-game'
+const AUDIENCE_WINDOW_NAME = 'name-that-thing-audience'
+
+let channel: BroadcastChannel | null = null
+let stopWatchers: (() => void) | null = null
+const audienceConnected = ref(false)
+
+/**
+ * Copy a value out of Vue's reactive proxies so it can be structured-cloned.
+ * Blobs and Dates are cloneable as-is.
+ */
+const toCloneable = <T>(value: T): T => {
+  const raw = toRaw(value)
+  if (raw === null || typeof raw !== 'object' || raw instanceof Blob || raw instanceof Date) {
+    return raw
+  }
+  if (Array.isArray(raw)) {
+    return raw.map(item => toCloneable(item)) as T
+  }
+  return Object.fromEntries(
+    Object.entries(raw).map(([key, item]) => [key, toCloneable(item)])
+  ) as T
+}
+
+export function useGameSync() {
+  const gameStore = useGameStore()
+  const isSupported = typeof BroadcastChannel !== 'undefined'
+
+  const post = (message: SyncMessage) => {
+    try {
+      channel?.postMessage(message)
+    } catch (err) {
+      console.error('Failed to sync game state:', err)
+    }
+  }
+
+  const postGame = () => {
+    post({
+      type: 'game',
+      category: toCloneable(gameStore.currentCategory),
+      images: toCloneable(gameStore.currentImages)
+    })
+  }
+
+  const postState = () => {
+    post({ type: 'state', state: gameStore.getSyncState() })
+  }
+
+  const closeChannel = () => {
+    stopWatchers?.()
+    stopWatchers = null
+    channel?.close()
+    channel = null
+  }
+
+  /**
+   * Presenter side: publish the game whenever it changes and answer audience windows
+   */
+  const startPresenting = () => {
+    if (!isSupported) return
+    closeChannel()
+
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      if (event.data.type === 'audience-joined') {
+        audienceConnected.value = true
+        postGame()
+        postState()
+      } else if (event.data.type === 'audience-left') {
+        audienceConnected.value = false
+      }
+    }
+
+    const stopGameWatch = watch(
+      () => [gameStore.currentCategory, gameStore.currentImages],
+      postGame
+    )
+    const stopStateWatch = watch(() => gameStore.getSyncState(), postState)
+    stopWatchers = () => {
+      stopGameWatch()
+      stopStateWatch()
+    }
+
+    // An audience window may already be open from before a reload
+    post({ type: 'presenter-ready' })
+  }
+
+  const stopPresenting = () => {
+    closeChannel()
+    audienceConnected.value = false
+  }
+
+  /**
+   * Audience side: follow whatever the presenter window publishes
+   */
+  const startAudience = () => {
+    if (!isSupported) return
+    closeChannel()
+
+    channel = new BroadcastChannel(CHANNEL_NAME)
+    channel.onmessage = (event: MessageEvent<SyncMessage>) => {
+      const message = event.data
+      if (message.type === 'presenter-ready') {
+        post({ type: 'audience-joined' })
+      } else if (message.type === 'game') {
+        gameStore.loadSyncedGame(message.category, message.images)
+      } else if (message.type === 'state') {
+        gameStore.applySyncState(message.state)
+      }
+    }
+
+    post({ type: 'audience-joined' })
+  }
+
+  const stopAudience = () => {
+    post({ type: 'audience-left' })
+    closeChannel()
+  }
+
+  const openAudienceWindow = () => {
+    const audienceWindow = window.open('/audience', AUDIENCE_WINDOW_NAME, 'popup,width=1280,height=800')
+    audienceWindow?.focus()
+    return audienceWindow !== null
+  }
+
+  return {
+    isSupported,
+    audienceConnected: readonly(audienceConnected),
+    startPresenting,
+    stopPresenting,
+    startAudience,
+    stopAudience,
+    openAudienceWindow
+  }
+}
@@ -1,8 +1,16 @@
 // Composable for handling image uploads and processing
+//
+// Every upload goes through a queue kept in IndexedDB. A file stays queued until its image is
+// saved, so an upload interrupted by a reload can be resumed, and files that failed stay listed
+// with their error until they are retried or discarded.
 
 import { ref, computed } from 'vue'
 import { ImageProcessingService } from '@/services/imageProcessing'
-import type { GameImage } from '@/types'
+import { JobCancelledError } from '@/services/workerPool'
+import { db } from '@/services/database'
+import { generateId } from '@/utils'
+import type { SimilarImage } from '@/services/perceptualHash'
+import type { DuplicateAction, GameImage, UploadQueueItem } from '@/types'
 
 export interface UploadProgress {
   current: number
@@ -11,115 +19,290 @@ export interface UploadProgress {
   currentFileName?: string
 }
 
+export interface UploadOptions {
+  maxWidth?: number
+  minWidth?: number
+  quality?: number
+  concurrency?: number // Files processed at once when workers are available
+  onImageProcessed?: (image: GameImage) => void | Promise<void>
+  onError?: (fileName: string, error: string) => void
+  // Duplicate handling: matches for a processed upload, what to do with them, and how to replace
+  findDuplicates?: (image: GameImage) => SimilarImage[]
+  onDuplicate?: (image: GameImage, matches: SimilarImage[]) => DuplicateAction | Promise<DuplicateAction>
+  onImageReplaced?: (image: GameImage, replaced: GameImage) => void | Promise<void>
+}
+
+export interface UploadResult {
+  successful: GameImage[]
+  failed: Array<{ fileName: string; error: string }>
+  cancelled: string[] // Still queued, to be resumed or discarded later
+  skipped: string[] // Duplicates left out
+  replaced: string[] // Duplicates that replaced the library image they matched
+}
+
 export function useImageUpload() {
   const isUploading = ref(false)
   const uploadProgress = ref<UploadProgress>({ current: 0, total: 0, percentage: 0 })
   const uploadErrors = ref<Array<{ fileName: string; error: string }>>([])
+  const queue = ref<UploadQueueItem[]>([])
 
   const progressPercentage = computed(() => uploadProgress.value.percentage)
   const hasErrors = computed(() => uploadErrors.value.length > 0)
+  const pendingUploads = computed(() => queue.value.filter(item => item.status !== 'failed'))
+  const failedUploads = computed(() => queue.value.filter(item => item.status === 'failed'))
+
+  // Aborting this cancels every file that has not finished processing
+  let abortController: AbortController | null = null
 
-  const uploadImages = async (
-    files: FileList | File[],
-    categoryId: string,
-    options?: {
-      maxWidth?: number
-      minWidth?: number
-      quality?: number
-      pixelSizes?: number[]
-      onImageProcessed?: (image: GameImage) => void
-      onError?: (fileName: string, error: string) => void
+  const updateQueueItem = (item: UploadQueueItem) => {
+    const index = queue.value.findIndex(queued => queued.id === item.id)
+    if (index !== -1) {
+      queue.value[index] = item
+    }
+  }
+
+  // The queue is only bookkeeping: if it can't be written, the upload itself carries on
+  const persist = async (write: () => Promise<void>) => {
+    try {
+      await write()
+    } catch (error) {
+      console.warn('useImageUpload: Failed to update the upload queue:', error)
     }
-  ): Promise<{
-    successful: GameImage[]
-    failed: Array<{ fileName: string; error: string }>
-  }> => {
+  }
+
+  const removeFromQueue = async (ids: string[]) => {
+    queue.value = queue.value.filter(item => !ids.includes(item.id))
+    await persist(() => db.deleteUploadItems(ids))
+  }
+
+  /**
+   * Read the queue left by earlier uploads, e.g. after a reload
+   */
+  const loadQueue = async (): Promise<UploadQueueItem[]> => {
+    if (isUploading.value) return queue.value
+    try {
+      queue.value = await db.getUploadQueue()
+    } catch (error) {
+      console.warn('useImageUpload: Failed to load the upload queue:', error)
+      queue.value = []
+    }
+    return queue.value
+  }
+
+  const processQueue = async (items: UploadQueueItem[], options?: UploadOptions): Promise<UploadResult> => {
     if (isUploading.value) {
       throw new Error('Upload already in progress')
     }
 
-    const fileArray = Array.from(files)
     const successful: GameImage[] = []
     const failed: Array<{ fileName: string; error: string }> = []
+    const cancelled: string[] = []
+    const skipped: string[] = []
+    const replaced: string[] = []
 
     isUploading.value = true
     uploadErrors.value = []
-    uploadProgress.value = { current: 0, total: fileArray.length, percentage: 0 }
+    uploadProgress.value = { current: 0, total: items.length, percentage: 0 }
 
-    try {
-      // Process files sequentially to avoid overwhelming the browser
-      for (let i = 0; i < fileArray.length; i++) {
-        const file = fileArray[i]
-
-        // Update progress
-        uploadProgress.value = {
-          current: i + 1,
-          total: fileArray.length,
-          percentage: Math.round(((i + 1) / fileArray.length) * 100),
-          currentFileName: file.name
+    const controller = new AbortController()
+    abortController = controller
+
+    // Without workers every file is processed on the page, one at a time
+    const concurrency = ImageProcessingService.supportsWorkers
+      ? Math.max(1, Math.min(options?.concurrency ?? 2, items.length))
+      : 1
+    if (ImageProcessingService.supportsWorkers) {
+      ImageProcessingService.setWorkerConcurrency(concurrency)
+    }
+
+    let nextIndex = 0
+    let completed = 0
+    // Saves run one after another: adding images to a category is a read-modify-write
+    let saveQueue: Promise<void> = Promise.resolve()
+
+    const recordError = async (item: UploadQueueItem, error: string) => {
+      const errorObj = { fileName: item.file.name, error }
+      failed.push(errorObj)
+      uploadErrors.value.push(errorObj)
+      options?.onError?.(item.file.name, error)
+
+      const failedItem: UploadQueueItem = { ...item, status: 'failed', error }
+      updateQueueItem(failedItem)
+      await persist(() => db.saveUploadItems([failedItem]))
+    }
+
+    const markComplete = () => {
+      completed++
+      uploadProgress.value = {
+        ...uploadProgress.value,
+        current: completed,
+        percentage: Math.round((completed / items.length) * 100)
+      }
+    }
+
+    const saveImage = (item: UploadQueueItem, image: GameImage): Promise<void> => {
+      // Wait for the previous save whether or not it worked, so one bad image doesn't fail the rest
+      const save = saveQueue.catch(() => {}).then(async () => {
+        const fileName = item.file.name
+
+        // Checked inside the queue so duplicates within one upload are caught too
+        const matches = options?.findDuplicates?.(image) ?? []
+        const action = matches.length > 0 && options?.onDuplicate
+          ? await options.onDuplicate(image, matches)
+          : 'keep'
+
+        if (action === 'skip') {
+          skipped.push(fileName)
+          await removeFromQueue([item.id])
+          return
+        }
+
+        if (action === 'replace' && options?.onImageReplaced) {
+          try {
+            await options.onImageReplaced(image, matches[0].image)
+            replaced.push(fileName)
+            await removeFromQueue([item.id])
+          } catch (callbackError) {
+            const errorMessage = callbackError instanceof Error ? callbackError.message : 'Failed to replace image'
+            await recordError(item, `Processing completed but replacing failed: ${errorMessage}`)
+          }
+          return
         }
 
+        if (!options?.onImageProcessed) {
+          successful.push(image)
+          await removeFromQueue([item.id])
+          return
+        }
+        // Wait for onImageProcessed callback to complete (including database save)
+        // before counting the file, so the UI doesn't update before the save is done
         try {
-          const result = await ImageProcessingService.processImage(
-            file,
-            categoryId,
-            options?.maxWidth,
-            options?.quality,
-            options?.minWidth,
-            options?.pixelSizes
-          )
+          await options.onImageProcessed(image)
+          successful.push(image)
+          await removeFromQueue([item.id])
+        } catch (callbackError) {
+          // If the callback fails (e.g., database save fails), treat as upload error
+          const errorMessage = callbackError instanceof Error ? callbackError.message : 'Failed to save image'
+          await recordError(item, `Processing completed but save failed: ${errorMessage}`)
+        }
+      })
+      saveQueue = save
+      return save
+    }
+
+    const runNext = async (): Promise<void> => {
+      while (nextIndex < items.length) {
+        const queued = items[nextIndex++]
+
+        if (controller.signal.aborted) {
+          cancelled.push(queued.file.name)
+          continue
+        }
+
+        const item: UploadQueueItem = { ...queued, status: 'processing', attempts: queued.attempts + 1, error: undefined }
+        updateQueueItem(item)
+        uploadProgress.value = { ...uploadProgress.value, currentFileName: item.file.name }
+
+        try {
+          const result = await ImageProcessingService.processImageInWorker(item.file, item.categoryId, {
+            maxWidth: options?.maxWidth,
+            minWidth: options?.minWidth,
+            quality: options?.quality,
+            signal: controller.signal
+          })
 
           if (result.success && result.processedImage) {
-            // The ImageProcessingService already validates pixelation levels internally
-            // No need for additional validation here as it can cause false positives
-            successful.push(result.processedImage)
-            
-            // Wait for onImageProcessed callback to complete (including database save)
-            // before continuing to ensure UI doesn't update before save is complete
-            if (options?.onImageProcessed) {
-              try {
-                await options.onImageProcessed(result.processedImage)
-              } catch (callbackError) {
-                // If the callback fails (e.g., database save fails), treat as upload error
-                const errorMessage = callbackError instanceof Error ? callbackError.message : 'Failed to save image'
-                const errorObj = { fileName: file.name, error: `Processing completed but save failed: ${errorMessage}` }
-                failed.push(errorObj)
-                uploadErrors.value.push(errorObj)
-                options?.onError?.(file.name, errorMessage)
-                // Remove from successful since save failed
-                const index = successful.indexOf(result.processedImage)
-                if (index > -1) {
-                  successful.splice(index, 1)
-                }
-              }
-            }
+            await saveImage(item, result.processedImage)
           } else {
-            const error = { fileName: file.name, error: result.error || 'Unknown error' }
-            failed.push(error)
-            uploadErrors.value.push(error)
-            options?.onError?.(file.name, result.error || 'Unknown error')
+            await recordError(item, result.error || 'Unknown error')
           }
         } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error'
-          const errorObj = { fileName: file.name, error: errorMessage }
-          failed.push(errorObj)
-          uploadErrors.value.push(errorObj)
-          options?.onError?.(file.name, errorMessage)
+          if (error instanceof JobCancelledError) {
+            cancelled.push(item.file.name)
+            const pendingItem: UploadQueueItem = { ...item, status: 'pending' }
+            updateQueueItem(pendingItem)
+            await persist(() => db.saveUploadItems([pendingItem]))
+            continue
+          }
+          await recordError(item, error instanceof Error ? error.message : 'Unknown error')
         }
 
-        // Enhanced delay to prevent resource contention and allow memory cleanup
-        if (i < fileArray.length - 1) {
-          await new Promise(resolve => setTimeout(resolve, 300)) // Increased to 300ms for better reliability
-        }
+        markComplete()
       }
+    }
 
-      return { successful, failed }
+    try {
+      await Promise.all(Array.from({ length: concurrency }, () => runNext()))
+      await saveQueue
+
+      return { successful, failed, cancelled, skipped, replaced }
     } finally {
+      abortController = null
       isUploading.value = false
       uploadProgress.value = { current: 0, total: 0, percentage: 0 }
     }
   }
 
+  /**
+   * Queue files for one or more categories and process them. Files stay queued until saved.
+   */
+  const uploadToCategories = async (
+    groups: Array<{ categoryId: string; files: FileList | File[] }>,
+    options?: UploadOptions
+  ): Promise<UploadResult> => {
+    if (isUploading.value) {
+      throw new Error('Upload already in progress')
+    }
+
+    const batchId = generateId()
+    const addedAt = new Date()
+    const items: UploadQueueItem[] = groups.flatMap(({ categoryId, files }) => Array.from(files).map(file => ({
+      id: generateId(),
+      batchId,
+      position: 0,
+      categoryId,
+      file,
+      status: 'pending' as const,
+      attempts: 0,
+      addedAt
+    })))
+    items.forEach((item, index) => { item.position = index })
+
+    queue.value = [...queue.value, ...items]
+    await persist(() => db.saveUploadItems(items))
+
+    return processQueue(items, options)
+  }
+
+  const uploadImages = (files: FileList | File[], categoryId: string, options?: UploadOptions): Promise<UploadResult> => {
+    return uploadToCategories([{ categoryId, files }], options)
+  }
+
+  /**
+   * Continue queued uploads: files still waiting, and failed files too when retryFailed is set
+   */
+  const resumeUploads = (options?: UploadOptions & { retryFailed?: boolean }): Promise<UploadResult> => {
+    const items = queue.value.filter(item => item.status !== 'failed' || options?.retryFailed)
+    return processQueue(items, options)
+  }
+
+  /**
+   * Drop queued files without uploading them; all of them when no ids are given
+   */
+  const discardUploads = async (ids?: string[]) => {
+    if (isUploading.value) {
+      throw new Error('Upload in progress')
+    }
+    await removeFromQueue(ids ?? queue.value.map(item => item.id))
+  }
+
+  /**
+   * Stop the current upload. Images that were already saved are kept; the rest stay queued.
+   */
+  const cancelUpload = () => {
+    abortController?.abort()
+  }
+
   const validateFiles = (files: FileList | File[]): {
     valid: File[]
     invalid: Array<{ file: File; reason: string }>
@@ -161,9 +344,17 @@ export function useImageUpload() {
     isUploading: readonly(isUploading),
     uploadProgress: readonly(uploadProgress),
     uploadErrors: readonly(uploadErrors),
+    uploadQueue: readonly(queue),
+    pendingUploads,
+    failedUploads,
     progressPercentage,
     hasErrors,
     uploadImages,
+    uploadToCategories,
+    resumeUploads,
+    discardUploads,
+    loadQueue,
+    cancelUpload,
     validateFiles,
     clearErrors,
     reset
@@ -24,6 +24,47 @@ const router = createRouter({
         title: 'Playing - Name That Thing'
       }
     },
+    {
+      path: '/present',
+      name: 'present',
+      component: () => import('@/views/GamePlay.vue'),
+      props: { presenterMode: true },
+      meta: {
+        title: 'Presenting - Name That Thing'
+      }
+    },
+    {
+      path: '/audience',
+      name: 'audience',
+      component: () => import('@/views/AudienceView.vue'),
+      meta: {
+        title: 'Name That Thing'
+      }
+    },
+    {
+      path: '/buzz',
+      name: 'buzz',
+      component: () => import('@/views/BuzzerView.vue'),
+      meta: {
+        title: 'Buzzer - Name That Thing'
+      }
+    },
+    {
+      path: '/history',
+      name: 'history',
+      component: () => import('@/views/GameHistory.vue'),
+      meta: {
+        title: 'Game History - Name That Thing'
+      }
+    },
+    {
+      path: '/practice',
+      name: 'practice',
+      component: () => import('@/views/PracticeView.vue'),
+      meta: {
+        title: 'Practice - Name That Thing'
+      }
+    },
     {
       path: '/settings',
       name: 'settings',
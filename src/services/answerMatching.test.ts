@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest'
+import { normalizeAnswer, matchAnswer, getAcceptedAnswers } from './answerMatching'
+import type { GameImage } from '@/types'
+
+const imageWith = (answer: string, alternateAnswers: string[] = []) => ({ answer, alternateAnswers }) as GameImage
+
+describe('normalizeAnswer', () => {
+  it('ignores case, accents, punctuation and articles', () => {
+    expect(normalizeAnswer('  The Café-Crème! ')).toBe('cafe creme')
+    expect(normalizeAnswer('Salt & Pepper')).toBe('salt and pepper')
+  })
+
+  it('keeps the articles of an answer made only of articles', () => {
+    expect(normalizeAnswer('The The')).toBe('the the')
+    expect(normalizeAnswer('A')).toBe('a')
+  })
+})
+
+describe('matchAnswer', () => {
+  it('forgives small typos in longer answers only', () => {
+    expect(matchAnswer('Eifel Tower', imageWith('The Eiffel Tower')).correct).toBe(true)
+    expect(matchAnswer('car', imageWith('cat')).correct).toBe(false)
+  })
+
+  it('accepts alternate answers', () => {
+    expect(matchAnswer('NYC', imageWith('New York City', ['NYC'])).answer).toBe('NYC')
+  })
+
+  it('matches answers made only of articles', () => {
+    const image = imageWith('The The')
+    expect(getAcceptedAnswers(image)).toEqual(['The The'])
+    expect(matchAnswer('the the', image).correct).toBe(true)
+    expect(matchAnswer('the', image).correct).toBe(false)
+  })
+})
@@ -0,0 +1,88 @@
+// Answer matching for typed guesses
+//
+// A guess is compared with the image's answer and alternate answers after normalizing both: case,
+// accents, punctuation, extra spaces and the articles "the", "a" and "an" are ignored, and "&"
+// reads as "and". Small typos are forgiven by edit distance, with the allowance growing with the
+// length of the answer, so "Eifel Tower" names the Eiffel Tower while "cat" never accepts "car".
+
+import type { GameImage } from '@/types'
+
+export interface AnswerMatch {
+  correct: boolean
+  close: boolean // Wrong, but only just outside the typo allowance
+  answer: string | null // The accepted answer the guess was nearest to
+}
+
+const ARTICLES = new Set(['the', 'a', 'an'])
+
+export const normalizeAnswer = (text: string): string => {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/[^\p{L}\p{N}\s]/gu, ' ')
+    .split(/\s+/)
+    .filter(word => word.length > 0)
+  const withoutArticles = words.filter(word => !ARTICLES.has(word))
+  // An answer that is only articles, like the band "The The", keeps them or nothing could match it
+  return (withoutArticles.length > 0 ? withoutArticles : words).join(' ')
+}
+
+/**
+ * Edits (insertions, deletions, substitutions and swaps of neighbouring letters) to turn a into b
+ */
+export const editDistance = (a: string, b: string): number => {
+  const rows = Array.from({ length: a.length + 1 }, (_, i) => {
+    const row = new Array<number>(b.length + 1).fill(0)
+    row[0] = i
+    return row
+  })
+  for (let j = 0; j <= b.length; j++) rows[0][j] = j
+
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1
+      rows[i][j] = Math.min(rows[i - 1][j] + 1, rows[i][j - 1] + 1, rows[i - 1][j - 1] + cost)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        rows[i][j] = Math.min(rows[i][j], rows[i - 2][j - 2] + 1)
+      }
+    }
+  }
+  return rows[a.length][b.length]
+}
+
+// Typos forgiven for an answer of this many characters
+export const getTypoAllowance = (length: number): number => {
+  if (length <= 3) return 0
+  if (length <= 6) return 1
+  if (length <= 12) return 2
+  return 3
+}
+
+export const getAcceptedAnswers = (image: GameImage): string[] => {
+  return [image.answer, ...(image.alternateAnswers ?? [])]
+    .filter((answer): answer is string => !!answer && normalizeAnswer(answer).length > 0)
+}
+
+/**
+ * Judge a typed guess against everything the image accepts
+ */
+export const matchAnswer = (guess: string, image: GameImage): AnswerMatch => {
+  const normalizedGuess = normalizeAnswer(guess)
+  let nearest: AnswerMatch = { correct: false, close: false, answer: null }
+  if (!normalizedGuess) return nearest
+
+  let nearestMargin = Infinity
+  for (const answer of getAcceptedAnswers(image)) {
+    const normalized = normalizeAnswer(answer)
+    const allowance = getTypoAllowance(normalized.length)
+    // How far over the allowance the guess is; 0 or less is a match
+    const margin = editDistance(normalizedGuess, normalized) - allowance
+    if (margin < nearestMargin) {
+      nearestMargin = margin
+      nearest = { correct: margin <= 0, close: margin === 1, answer }
+    }
+  }
+  return nearest
+}
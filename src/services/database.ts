@@ -1,15 +1,55 @@
 // IndexedDB service for Name That Thing data persistence
 
-import type { Category, GameImage, ExportData } from '@/types'
+import type {
+  Category,
+  GameImage,
+  ExportData,
+  PackageManifest,
+  ImportPreview,
+  ImportResult,
+  Playlist,
+  PlayRecord,
+  PracticeSchedule,
+  UploadQueueItem
+} from '@/types'
+import { ZipWriter, readZip, type ZipEntry } from './zipArchive'
+import { buildImportPreview, mergeImageDetails, type ImageRecord } from './importPreview'
+import { runMigrations, MigrationError, LATEST_SCHEMA_VERSION } from './migrations'
+import { generateId } from '@/utils'
 
 const DB_NAME = 'NameThatThingDB'
-const DB_VERSION = 1
+const DB_VERSION = LATEST_SCHEMA_VERSION
+const PACKAGE_FORMAT = 'name-that-thing-package'
+const PACKAGE_VERSION = '3.4.0'
+export const PACKAGE_MANIFEST = 'manifest.json'
+const EXPORT_VERSION = '1.6.0'
 
 interface DBSchema {
   categories: Category
   images: GameImage
-  blobs: { id: string; imageId: string; level: string; blob: Blob }
+  originals: { imageId: string; blob: Blob }
+  sources: { imageId: string; blob: Blob }
   settings: { key: string; value: any }
+  uploadQueue: UploadQueueItem
+  playlists: Playlist
+  history: PlayRecord
+  practice: PracticeSchedule
+}
+
+// Category and image writes that DatabaseService.saveLibraryChanges stores together
+export interface LibraryChanges {
+  categories?: Category[]
+  newImages?: GameImage[] // Saved with their original, and their untouched upload when it is loaded
+  updatedImages?: GameImage[] // Only the image records; stored originals are left as they are
+  deletedImageIds?: string[]
+}
+
+// The contents of a .ntt package or JSON backup, with image files read on demand
+interface ImportSource extends Omit<ImportPreview, 'categories'> {
+  categories: Category[]
+  images: ImageRecord[]
+  loadOriginal: (imageId: string) => Promise<Blob>
+  loadSource: (imageId: string) => Promise<Blob | null>
 }
 
 export class DatabaseService {
@@ -26,47 +66,124 @@ export class DatabaseService {
   }
 
   async init(): Promise<void> {
+    if (this.db) return
+
     return new Promise((resolve, reject) => {
       const request = indexedDB.open(DB_NAME, DB_VERSION)
+      let migrationError: MigrationError | Error | null = null
 
       request.onerror = () => {
-        reject(new Error('Failed to open database'))
+        // A failed migration aborts the upgrade, which rolls the database back to its previous version
+        reject(migrationError ?? new Error('Failed to open database'))
+      }
+
+      request.onblocked = () => {
+        console.warn('Database upgrade is waiting for other Name That Thing tabs to close')
       }
 
       request.onsuccess = () => {
         this.db = request.result
+        // Let another tab upgrade the schema instead of blocking it
+        this.db.onversionchange = () => {
+          this.db?.close()
+          this.db = null
+        }
         resolve()
       }
 
       request.onupgradeneeded = (event) => {
-        const db = (event.target as IDBOpenDBRequest).result
+        const db = request.result
+        const transaction = request.transaction!
 
-        // Categories store
-        if (!db.objectStoreNames.contains('categories')) {
-          const categoryStore = db.createObjectStore('categories', { keyPath: 'id' })
-          categoryStore.createIndex('name', 'name', { unique: false })
-          categoryStore.createIndex('createdAt', 'createdAt', { unique: false })
-        }
+        runMigrations(db, transaction, event.oldVersion).catch((error) => {
+          migrationError = error
+          try {
+            transaction.abort()
+          } catch (abortError) {
+            // Already finished: a step awaited something other than its own requests
+            console.error('Could not roll back the failed migration:', abortError)
+          }
+        })
+      }
+    })
+  }
 
-        // Images store
-        if (!db.objectStoreNames.contains('images')) {
-          const imageStore = db.createObjectStore('images', { keyPath: 'id' })
-          imageStore.createIndex('categoryId', 'categoryId', { unique: false })
-          imageStore.createIndex('originalName', 'originalName', { unique: false })
-        }
+  // Recovery after a failed migration - the data is untouched at the old version, so it can
+  // be backed up before retrying with a fixed release or starting over
 
-        // Blobs store (separate from images for better performance)
-        if (!db.objectStoreNames.contains('blobs')) {
-          const blobStore = db.createObjectStore('blobs', { keyPath: 'id' })
-          blobStore.createIndex('imageId', 'imageId', { unique: false })
-          blobStore.createIndex('level', 'level', { unique: false })
-        }
+  /**
+   * Back up every record as a JSON export without upgrading the database.
+   * schemaVersion records which shape the records are in.
+   */
+  async exportRawBackup(): Promise<ExportData> {
+    const { database, schemaVersion } = await this.openWithoutUpgrade()
+    try {
+      const readAll = (storeName: string): Promise<any[]> => {
+        if (!database.objectStoreNames.contains(storeName)) return Promise.resolve([])
+        return new Promise((resolve, reject) => {
+          const request = database.transaction([storeName]).objectStore(storeName).getAll()
+          request.onerror = () => reject(request.error)
+          request.onsuccess = () => resolve(request.result)
+        })
+      }
 
-        // Settings store
-        if (!db.objectStoreNames.contains('settings')) {
-          db.createObjectStore('settings', { keyPath: 'key' })
+      // Schema 1 kept every level in 'blobs'; from schema 2 only originals are stored
+      const blobs: Record<string, string> = {}
+      for (const record of await readAll('blobs')) {
+        if (record.blob instanceof Blob && record.blob.size > 0) {
+          blobs[record.id] = await this.blobToBase64(record.blob)
+        }
+      }
+      for (const record of await readAll('originals')) {
+        if (record.blob instanceof Blob && record.blob.size > 0) {
+          blobs[`${record.imageId}_original`] = await this.blobToBase64(record.blob)
         }
       }
+      for (const record of await readAll('sources')) {
+        if (record.blob instanceof Blob && record.blob.size > 0) {
+          blobs[`${record.imageId}_source`] = await this.blobToBase64(record.blob)
+        }
+      }
+
+      return {
+        version: EXPORT_VERSION,
+        schemaVersion,
+        exportDate: new Date().toISOString(),
+        categories: await readAll('categories'),
+        images: await readAll('images'),
+        blobs,
+        playlists: await readAll('playlists'),
+        history: await readAll('history'),
+        practice: await readAll('practice')
+      }
+    } finally {
+      database.close()
+    }
+  }
+
+  /**
+   * Delete the database entirely and create an empty one at the current schema
+   */
+  async resetDatabase(): Promise<void> {
+    this.db?.close()
+    this.db = null
+    await new Promise<void>((resolve, reject) => {
+      const request = indexedDB.deleteDatabase(DB_NAME)
+      request.onerror = () => reject(request.error)
+      request.onblocked = () => console.warn('Database reset is waiting for other Name That Thing tabs to close')
+      request.onsuccess = () => resolve()
+    })
+    await this.init()
+  }
+
+  // Opening without a version number uses whatever version is on disk, so no upgrade runs
+  private openWithoutUpgrade(): Promise<{ database: IDBDatabase; schemaVersion: number }> {
+    return new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME)
+      request.onerror = () => reject(request.error ?? new Error('There is no database to back up'))
+      // Only fires when no database exists yet; aborting stops an empty one being created
+      request.onupgradeneeded = () => request.transaction?.abort()
+      request.onsuccess = () => resolve({ database: request.result, schemaVersion: request.result.version })
     })
   }
 
@@ -103,24 +220,8 @@ export class DatabaseService {
       console.log('DatabaseService: Category.imageIds type:', typeof category.imageIds, 'isArray:', Array.isArray(category.imageIds))
       console.log('DatabaseService: Category.imageIds contents:', category.imageIds)
       
-      // Create a completely clean object using JSON serialization to remove any Vue reactivity
       try {
-        const cleanCategory = {
-          id: String(category.id),
-          name: String(category.name),
-          description: category.description ? String(category.description) : undefined,
-          createdAt: category.createdAt instanceof Date 
-            ? category.createdAt.toISOString() 
-            : String(category.createdAt),
-          updatedAt: category.updatedAt instanceof Date 
-            ? category.updatedAt.toISOString() 
-            : String(category.updatedAt),
-          imageIds: Array.isArray(category.imageIds) ? category.imageIds.map((id: string) => String(id)) : [],
-          settings: category.settings ? {
-            shuffleImages: Boolean(category.settings.shuffleImages),
-            showFileName: Boolean(category.settings.showFileName)
-          } : undefined
-        }
+        const cleanCategory = this.toCategoryRecord(category)
         
         console.log('DatabaseService: Clean category object:', cleanCategory)
         console.log('DatabaseService: Attempting to save to IndexedDB...')
@@ -141,6 +242,29 @@ export class DatabaseService {
     })
   }
 
+  // Create a completely clean object to remove any Vue reactivity
+  private toCategoryRecord(category: Category | any) {
+    return {
+      id: String(category.id),
+      name: String(category.name),
+      description: category.description ? String(category.description) : undefined,
+      createdAt: category.createdAt instanceof Date 
+        ? category.createdAt.toISOString() 
+        : String(category.createdAt),
+      updatedAt: category.updatedAt instanceof Date 
+        ? category.updatedAt.toISOString() 
+        : String(category.updatedAt),
+      imageIds: Array.isArray(category.imageIds) ? category.imageIds.map((id: string) => String(id)) : [],
+      revealStages: Array.isArray(category.revealStages) ? category.revealStages.map((size: number) => Number(size)) : undefined,
+      revealEffect: category.revealEffect ? String(category.revealEffect) : undefined,
+      tags: Array.isArray(category.tags) ? category.tags.map((tag: string) => String(tag)) : undefined,
+      settings: category.settings ? {
+        shuffleImages: Boolean(category.settings.shuffleImages),
+        showFileName: Boolean(category.settings.showFileName)
+      } : undefined
+    }
+  }
+
   async deleteCategory(id: string): Promise<void> {
     const store = this.getStore('categories', 'readwrite')
     return new Promise((resolve, reject) => {
@@ -153,141 +277,40 @@ export class DatabaseService {
   // Image operations
   async getImages(): Promise<GameImage[]> {
     console.log('DatabaseService: Loading images from database...')
-    const store = this.getStore('images')
-    return new Promise((resolve, reject) => {
-      const request = store.getAll()
-      request.onerror = () => {
-        console.error('DatabaseService: Error loading images:', request.error)
-        reject(request.error)
-      }
-      request.onsuccess = async () => {
-        const images = request.result
-        console.log('DatabaseService: Loaded', images.length, 'image records')
-        
-        // Load blobs for each image
-        const imagesWithBlobs = await Promise.all(
-          images.map(async (image) => {
-            console.log('DatabaseService: Loading blobs for image', image.originalName)
-            const blobs = await this.getBlobsForImage(image.id)
-            const blobCount = Object.keys(blobs).length
-            console.log('DatabaseService: Loaded', blobCount, 'blobs for', image.originalName)
-            
-            // Log blob details and validate
-            const validatedBlobs: Record<string, Blob> = {}
-            let hasInvalidBlobs = false
-            Object.entries(blobs).forEach(([level, blob]) => {
-              console.log(`DatabaseService: Blob ${level} size:`, blob.size, 'type:', blob.type)
-              if (blob.size > 0) {
-                validatedBlobs[level] = blob
-              } else {
-                console.warn(`DatabaseService: Invalid blob for ${image.originalName} level ${level} (size: ${blob.size})`)
-                hasInvalidBlobs = true
-              }
-            })
-            
-            const pixelationLevels = {
-              level1: validatedBlobs.level1 || null,
-              level2: validatedBlobs.level2 || null,
-              level3: validatedBlobs.level3 || null,
-              level4: validatedBlobs.level4 || null
-            }
-            
-            // If we have invalid blobs, try to regenerate from the best available source
-            if (hasInvalidBlobs) {
-              console.warn(`DatabaseService: Attempting to regenerate missing blobs for ${image.originalName}`)
-              try {
-                const { ImageProcessingService } = await import('@/services/imageProcessing')
-                const sourceBlob = pixelationLevels.level4 || pixelationLevels.level3 || pixelationLevels.level2 || pixelationLevels.level1
-                if (sourceBlob) {
-                  const regeneratedLevels = await ImageProcessingService.regeneratePixelationLevels(
-                    sourceBlob,
-                    pixelationLevels
-                  )
-                  
-                  // Update the pixelation levels with regenerated ones
-                  Object.assign(pixelationLevels, regeneratedLevels)
-                  
-                  // Save the regenerated image back to database
-                  const updatedImage = {
-                    ...image,
-                    metadata: {
-                      uploadedAt: new Date(image.metadata.uploadedAt),
-                      processedAt: new Date(image.metadata.processedAt)
-                    },
-                    pixelationLevels: regeneratedLevels
-                  }
-                  
-                  // Save asynchronously without blocking the load
-                  this.saveImage(updatedImage).catch(err => {
-                    console.error('Failed to save regenerated image:', err)
-                  })
-                  
-                  console.log(`DatabaseService: Successfully regenerated blobs for ${image.originalName}`)
-                } else {
-                  console.error(`DatabaseService: No valid source blob found for regeneration of ${image.originalName}`)
-                }
-              } catch (regenerationError) {
-                console.error(`DatabaseService: Failed to regenerate blobs for ${image.originalName}:`, regenerationError)
-              }
-            }
-            
-            return {
-              ...image,
-              metadata: {
-                uploadedAt: new Date(image.metadata.uploadedAt),
-                processedAt: new Date(image.metadata.processedAt)
-              },
-              pixelationLevels
-            }
-          })
-        )
-        console.log('DatabaseService: Returning', imagesWithBlobs.length, 'complete images')
-        resolve(imagesWithBlobs)
+    const records = await this.getImageRecords()
+    console.log('DatabaseService: Loaded', records.length, 'image records')
+
+    const images: GameImage[] = []
+    for (const record of records) {
+      const original = await this.getOriginal(record.id)
+      if (!original) {
+        // Reveal stages are rendered from the original, so an image without one can't be shown
+        console.warn(`DatabaseService: No original stored for ${record.originalName}, skipping`)
+        continue
       }
-    })
+      images.push({
+        ...record,
+        original,
+        metadata: {
+          uploadedAt: new Date(record.metadata.uploadedAt),
+          processedAt: new Date(record.metadata.processedAt)
+        }
+      })
+    }
+
+    console.log('DatabaseService: Returning', images.length, 'complete images')
+    return images
   }
 
   async saveImage(image: GameImage): Promise<void> {
     console.log('DatabaseService: Saving image', image.originalName, 'ID:', image.id)
     
-    // Validate pixelation levels before saving
-    const levels = image.pixelationLevels
-    const levelSizes = {
-      level1: levels.level1?.size || 0,
-      level2: levels.level2?.size || 0,
-      level3: levels.level3?.size || 0,
-      level4: levels.level4?.size || 0
+    if (!image.original || image.original.size === 0) {
+      console.error(`DatabaseService: CRITICAL - Attempting to save image ${image.originalName} without an original`)
+      throw new Error('Cannot save image without its original')
     }
     
-    console.log('DatabaseService: Image pixelation level sizes:', levelSizes)
-    
-    const hasAllLevels = levelSizes.level1 > 0 && levelSizes.level2 > 0 && levelSizes.level3 > 0 && levelSizes.level4 > 0
-    if (!hasAllLevels) {
-      const missingLevels = Object.entries(levelSizes)
-        .filter(([_, size]) => size === 0)
-        .map(([level, _]) => level)
-      
-      console.error(`DatabaseService: CRITICAL - Attempting to save image ${image.originalName} with missing pixelation levels:`, missingLevels)
-      throw new Error(`Cannot save image with missing pixelation levels: ${missingLevels.join(', ')}`)
-    }
-    
-    // Create a clean, serializable object by explicitly copying only the needed properties
-    const serializedMetadata = {
-      id: image.id,
-      categoryId: image.categoryId,
-      originalName: image.originalName,
-      mimeType: image.mimeType,
-      originalSize: image.originalSize,
-      processedSize: image.processedSize,
-      dimensions: {
-        width: image.dimensions.width,
-        height: image.dimensions.height
-      },
-      metadata: {
-        uploadedAt: image.metadata.uploadedAt.toISOString(),
-        processedAt: image.metadata.processedAt.toISOString()
-      }
-    }
+    const serializedMetadata = this.toImageRecord(image)
     console.log('DatabaseService: Saving clean image metadata:', serializedMetadata)
 
     // Save image metadata first
@@ -304,40 +327,82 @@ export class DatabaseService {
       }
     })
 
-    // Save blobs separately with individual transactions to avoid TransactionInactiveError
-    const pixelationLevels = image.pixelationLevels
-    console.log('DatabaseService: Saving', Object.keys(pixelationLevels).length, 'blob levels')
-    
-    for (const [level, blob] of Object.entries(pixelationLevels)) {
-      // Skip null blobs
-      if (!blob) {
-        console.warn(`DatabaseService: Skipping null blob for level ${level}`)
-        continue
+    // Save the original in a separate transaction to avoid TransactionInactiveError
+    const originalStore = this.getStore('originals', 'readwrite')
+    await new Promise<void>((resolve, reject) => {
+      const request = originalStore.put({ imageId: image.id, blob: image.original })
+      request.onerror = () => {
+        console.error('DatabaseService: Error saving original:', request.error)
+        reject(request.error)
       }
-      
-      // Create a new transaction for each blob to ensure it's active
-      const blobStore = this.getStore('blobs', 'readwrite')
+      request.onsuccess = () => resolve()
+    })
+
+    console.log('DatabaseService: Original saved for image', image.originalName, 'size:', image.original.size)
+
+    // The untouched upload only exists for edited images and is left alone when not loaded
+    if (image.source && image.source.size > 0) {
+      const sourceStore = this.getStore('sources', 'readwrite')
       await new Promise<void>((resolve, reject) => {
-        const blobData = {
-          id: `${image.id}_${level}`,
-          imageId: image.id,
-          level,
-          blob
-        }
-        console.log('DatabaseService: Saving blob', blobData.id, 'size:', blob.size)
-        const request = blobStore.put(blobData)
-        request.onerror = () => {
-          console.error('DatabaseService: Error saving blob:', level, request.error)
-          reject(request.error)
-        }
-        request.onsuccess = () => {
-          console.log('DatabaseService: Blob saved successfully:', level)
-          resolve()
-        }
+        const request = sourceStore.put({ imageId: image.id, blob: image.source })
+        request.onerror = () => reject(request.error)
+        request.onsuccess = () => resolve()
       })
     }
+  }
 
-    console.log('DatabaseService: All blobs saved for image', image.originalName)
+  // Create a clean, serializable object by explicitly copying only the needed properties
+  private toImageRecord(image: GameImage) {
+    return {
+      id: image.id,
+      categoryId: image.categoryId,
+      originalName: image.originalName,
+      mimeType: image.mimeType,
+      originalSize: image.originalSize,
+      processedSize: image.processedSize,
+      dimensions: {
+        width: image.dimensions.width,
+        height: image.dimensions.height
+      },
+      answer: image.answer ? String(image.answer) : undefined,
+      alternateAnswers: Array.isArray(image.alternateAnswers) ? image.alternateAnswers.map(answer => String(answer)) : undefined,
+      hints: Array.isArray(image.hints) ? image.hints.map(hint => String(hint)) : undefined,
+      tags: Array.isArray(image.tags) ? image.tags.map(tag => String(tag)) : undefined,
+      difficulty: Number.isFinite(image.difficulty) ? Number(image.difficulty) : undefined,
+      edits: image.edits ? {
+        rotation: image.edits.rotation,
+        flipHorizontal: Boolean(image.edits.flipHorizontal),
+        flipVertical: Boolean(image.edits.flipVertical),
+        crop: image.edits.crop ? {
+          x: Number(image.edits.crop.x),
+          y: Number(image.edits.crop.y),
+          width: Number(image.edits.crop.width),
+          height: Number(image.edits.crop.height)
+        } : undefined
+      } : undefined,
+      reveal: image.reveal ? {
+        focus: { x: Number(image.reveal.focus.x), y: Number(image.reveal.focus.y) },
+        seed: Number(image.reveal.seed)
+      } : undefined,
+      perceptualHash: image.perceptualHash ? String(image.perceptualHash) : undefined,
+      metadata: {
+        uploadedAt: image.metadata.uploadedAt.toISOString(),
+        processedAt: image.metadata.processedAt.toISOString()
+      }
+    }
+  }
+
+  // Level helpers for older exports, where every stage was stored as level1..levelN
+  // with levelN the original
+  private parseLevelNumber(level: string): number {
+    const match = /^level(\d+)$/.exec(level)
+    return match ? Number(match[1]) : 0
+  }
+
+  private originalFromLevels(blobs: Record<string, Blob | undefined>): Blob | null {
+    const levelCount = Object.keys(blobs).reduce((max, level) => Math.max(max, this.parseLevelNumber(level)), 0)
+    const original = blobs[`level${levelCount}`]
+    return original && original.size > 0 ? original : null
   }
 
   async deleteImage(id: string): Promise<void> {
@@ -349,52 +414,283 @@ export class DatabaseService {
       request.onsuccess = () => resolve()
     })
 
-    // Delete associated blobs with a separate transaction
-    const blobStore = this.getStore('blobs', 'readwrite')
-    const blobIndex = blobStore.index('imageId')
-    
-    // Get all blob records for this image
-    const blobRecords = await new Promise<any[]>((resolve, reject) => {
-      const request = blobIndex.getAll(id)
+    // Delete the original with a separate transaction
+    const originalStore = this.getStore('originals', 'readwrite')
+    await new Promise<void>((resolve, reject) => {
+      const request = originalStore.delete(id)
       request.onerror = () => reject(request.error)
-      request.onsuccess = () => resolve(request.result)
+      request.onsuccess = () => resolve()
     })
 
-    // Delete each blob record with individual transactions
-    for (const blobRecord of blobRecords) {
-      const blobDeleteStore = this.getStore('blobs', 'readwrite')
-      await new Promise<void>((resolve, reject) => {
-        const deleteRequest = blobDeleteStore.delete(blobRecord.id)
-        deleteRequest.onerror = () => reject(deleteRequest.error)
-        deleteRequest.onsuccess = () => resolve()
-      })
+    await this.deleteImageSource(id)
+  }
+
+  /**
+   * The untouched upload of an edited image, or null if it was never edited
+   */
+  async getImageSource(imageId: string): Promise<Blob | null> {
+    const store = this.getStore('sources')
+    return new Promise((resolve, reject) => {
+      const request = store.get(imageId)
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        const blob: Blob | undefined = request.result?.blob
+        resolve(blob && blob.size > 0 ? blob : null)
+      }
+    })
+  }
+
+  async deleteImageSource(imageId: string): Promise<void> {
+    const store = this.getStore('sources', 'readwrite')
+    await new Promise<void>((resolve, reject) => {
+      const request = store.delete(imageId)
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve()
+    })
+  }
+
+  /**
+   * Save category and image changes in one transaction, so a move, copy or bulk delete is stored
+   * completely or not at all
+   */
+  async saveLibraryChanges(changes: LibraryChanges): Promise<void> {
+    if (!this.db) {
+      throw new Error('Database not initialized')
     }
+
+    const newImages = changes.newImages ?? []
+    const missingOriginal = newImages.find(image => !image.original || image.original.size === 0)
+    if (missingOriginal) {
+      throw new Error(`Cannot save image ${missingOriginal.originalName} without its original`)
+    }
+
+    const transaction = this.db.transaction(['categories', 'images', 'originals', 'sources'], 'readwrite')
+    await new Promise<void>((resolve, reject) => {
+      transaction.oncomplete = () => resolve()
+      transaction.onerror = () => reject(transaction.error)
+      transaction.onabort = () => reject(transaction.error)
+
+      const categoryStore = transaction.objectStore('categories')
+      const imageStore = transaction.objectStore('images')
+      const originalStore = transaction.objectStore('originals')
+      const sourceStore = transaction.objectStore('sources')
+
+      for (const id of changes.deletedImageIds ?? []) {
+        imageStore.delete(id)
+        originalStore.delete(id)
+        sourceStore.delete(id)
+      }
+      for (const image of newImages) {
+        imageStore.put(this.toImageRecord(image))
+        originalStore.put({ imageId: image.id, blob: image.original })
+        if (image.source && image.source.size > 0) {
+          sourceStore.put({ imageId: image.id, blob: image.source })
+        }
+      }
+      for (const image of changes.updatedImages ?? []) {
+        imageStore.put(this.toImageRecord(image))
+      }
+      for (const category of changes.categories ?? []) {
+        categoryStore.put(this.toCategoryRecord(category))
+      }
+    })
   }
 
-  private async getBlobsForImage(imageId: string): Promise<Record<string, Blob>> {
-    console.log('DatabaseService: Getting blobs for image ID:', imageId)
-    const store = this.getStore('blobs')
-    const index = store.index('imageId')
-    
+  private async getOriginal(imageId: string): Promise<Blob | null> {
+    const store = this.getStore('originals')
     return new Promise((resolve, reject) => {
-      const request = index.getAll(imageId)
+      const request = store.get(imageId)
       request.onerror = () => {
-        console.error('DatabaseService: Error getting blobs for image:', imageId, request.error)
+        console.error('DatabaseService: Error getting original for image:', imageId, request.error)
         reject(request.error)
       }
       request.onsuccess = () => {
-        const blobs: Record<string, Blob> = {}
-        console.log('DatabaseService: Found', request.result.length, 'blob records for image', imageId)
-        request.result.forEach(record => {
-          console.log('DatabaseService: Loading blob level', record.level, 'size:', record.blob.size)
-          blobs[record.level] = record.blob
-        })
-        resolve(blobs)
+        const blob: Blob | undefined = request.result?.blob
+        resolve(blob && blob.size > 0 ? blob : null)
+      }
+    })
+  }
+
+  // Playlist operations
+  async getPlaylists(): Promise<Playlist[]> {
+    const store = this.getStore('playlists')
+    return new Promise((resolve, reject) => {
+      const request = store.getAll()
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        const playlists: Playlist[] = request.result.map((playlist: any) => ({
+          ...playlist,
+          createdAt: new Date(playlist.createdAt),
+          updatedAt: new Date(playlist.updatedAt)
+        }))
+        resolve(playlists)
+      }
+    })
+  }
+
+  async savePlaylist(playlist: Playlist): Promise<void> {
+    const store = this.getStore('playlists', 'readwrite')
+    return new Promise((resolve, reject) => {
+      // Copied field by field so no Vue proxies reach IndexedDB
+      const request = store.put({
+        id: playlist.id,
+        name: playlist.name,
+        description: playlist.description,
+        imageIds: [...playlist.imageIds],
+        createdAt: playlist.createdAt.toISOString(),
+        updatedAt: playlist.updatedAt.toISOString()
+      })
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve()
+    })
+  }
+
+  async deletePlaylist(id: string): Promise<void> {
+    const store = this.getStore('playlists', 'readwrite')
+    return new Promise((resolve, reject) => {
+      const request = store.delete(id)
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve()
+    })
+  }
+
+  // Game history operations
+  async getHistory(gameId?: string): Promise<PlayRecord[]> {
+    const store = this.getStore('history')
+    return new Promise((resolve, reject) => {
+      const request = gameId ? store.index('gameId').getAll(gameId) : store.getAll()
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        const records: PlayRecord[] = request.result.map((record: any) => ({
+          ...record,
+          playedAt: new Date(record.playedAt)
+        }))
+        resolve(records)
+      }
+    })
+  }
+
+  async saveHistoryRecord(record: PlayRecord): Promise<void> {
+    const store = this.getStore('history', 'readwrite')
+    return new Promise((resolve, reject) => {
+      const request = store.put({ ...record, playedAt: record.playedAt.toISOString() })
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve()
+    })
+  }
+
+  async deleteHistoryRecord(id: string): Promise<void> {
+    const store = this.getStore('history', 'readwrite')
+    return new Promise((resolve, reject) => {
+      const request = store.delete(id)
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve()
+    })
+  }
+
+  async clearHistory(): Promise<void> {
+    const store = this.getStore('history', 'readwrite')
+    return new Promise((resolve, reject) => {
+      const request = store.clear()
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve()
+    })
+  }
+
+  // Practice schedule operations
+  async getPracticeSchedules(): Promise<PracticeSchedule[]> {
+    const store = this.getStore('practice')
+    return new Promise((resolve, reject) => {
+      const request = store.getAll()
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        const schedules: PracticeSchedule[] = request.result.map((schedule: any) => ({
+          ...schedule,
+          dueAt: new Date(schedule.dueAt),
+          lastReviewedAt: new Date(schedule.lastReviewedAt)
+        }))
+        resolve(schedules)
       }
     })
   }
 
+  async savePracticeSchedule(schedule: PracticeSchedule): Promise<void> {
+    const store = this.getStore('practice', 'readwrite')
+    return new Promise((resolve, reject) => {
+      const request = store.put({
+        ...schedule,
+        dueAt: schedule.dueAt.toISOString(),
+        lastReviewedAt: schedule.lastReviewedAt.toISOString()
+      })
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve()
+    })
+  }
+
+  async clearPracticeSchedules(): Promise<void> {
+    const store = this.getStore('practice', 'readwrite')
+    return new Promise((resolve, reject) => {
+      const request = store.clear()
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve()
+    })
+  }
+
   // Settings operations
+  // Upload queue operations
+  async getUploadQueue(): Promise<UploadQueueItem[]> {
+    const store = this.getStore('uploadQueue')
+    return new Promise((resolve, reject) => {
+      const request = store.getAll()
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => {
+        const items: UploadQueueItem[] = request.result.map((item: any) => ({
+          ...item,
+          addedAt: new Date(item.addedAt)
+        }))
+        // Oldest upload first, each in the order its files were chosen
+        items.sort((a, b) => a.addedAt.getTime() - b.addedAt.getTime() || a.position - b.position)
+        resolve(items)
+      }
+    })
+  }
+
+  /**
+   * Add or update queued uploads in one transaction
+   */
+  async saveUploadItems(items: UploadQueueItem[]): Promise<void> {
+    const store = this.getStore('uploadQueue', 'readwrite')
+    await new Promise<void>((resolve, reject) => {
+      store.transaction.oncomplete = () => resolve()
+      store.transaction.onerror = () => reject(store.transaction.error)
+      store.transaction.onabort = () => reject(store.transaction.error)
+      for (const item of items) {
+        store.put({
+          id: item.id,
+          batchId: item.batchId,
+          position: item.position,
+          categoryId: item.categoryId,
+          file: item.file,
+          // A file that was processing when the page closed starts over
+          status: item.status === 'processing' ? 'pending' : item.status,
+          attempts: item.attempts,
+          error: item.error,
+          addedAt: item.addedAt.toISOString()
+        })
+      }
+    })
+  }
+
+  async deleteUploadItems(ids: string[]): Promise<void> {
+    const store = this.getStore('uploadQueue', 'readwrite')
+    await new Promise<void>((resolve, reject) => {
+      store.transaction.oncomplete = () => resolve()
+      store.transaction.onerror = () => reject(store.transaction.error)
+      store.transaction.onabort = () => reject(store.transaction.error)
+      ids.forEach(id => store.delete(id))
+    })
+  }
+
   async getSetting(key: string): Promise<any> {
     const store = this.getStore('settings')
     return new Promise((resolve, reject) => {
@@ -418,31 +714,37 @@ export class DatabaseService {
     try {
       const categories = await this.getCategories()
       const images = await this.getImages()
+      const playlists = await this.getPlaylists()
+      const history = await this.getHistory()
+      const practice = await this.getPracticeSchedules()
       
       console.log(`Exporting ${categories.length} categories and ${images.length} images`)
       
-      // Convert blobs to base64
+      // Convert originals to base64 - reveal stages are rendered again on import
       const blobs: Record<string, string> = {}
       for (const image of images) {
-        for (const [level, blob] of Object.entries(image.pixelationLevels)) {
-          if (blob && blob.size > 0) {  // Only process non-null, non-empty blobs
-            try {
-              const base64 = await this.blobToBase64(blob)
-              blobs[`${image.id}_${level}`] = base64
-            } catch (error) {
-              console.warn(`Failed to convert blob for image ${image.id} level ${level}:`, error)
-              // Continue with other blobs even if one fails
-            }
+        try {
+          blobs[`${image.id}_original`] = await this.blobToBase64(image.original)
+          const source = await this.getImageSource(image.id)
+          if (source) {
+            blobs[`${image.id}_source`] = await this.blobToBase64(source)
           }
+        } catch (error) {
+          console.warn(`Failed to convert original for image ${image.id}:`, error)
+          // Continue with other images even if one fails
         }
       }
 
       const exportData: ExportData = {
-        version: '1.0.0',
+        version: EXPORT_VERSION,
+        schemaVersion: DB_VERSION,
         exportDate: new Date().toISOString(),
         categories,
-        images: images.map(({ pixelationLevels, ...image }) => image as any),
-        blobs
+        images: images.map(({ original, ...image }) => image as any),
+        blobs,
+        playlists,
+        history,
+        practice
       }
       
       console.log(`Export complete: ${Object.keys(blobs).length} blobs processed`)
@@ -478,16 +780,10 @@ export class DatabaseService {
       // Import images with blobs
       for (const imageData of data.images) {
         try {
-          const pixelationLevels = {
-            level1: data.blobs[`${imageData.id}_level1`] ? this.base64ToBlob(data.blobs[`${imageData.id}_level1`]) : null,
-            level2: data.blobs[`${imageData.id}_level2`] ? this.base64ToBlob(data.blobs[`${imageData.id}_level2`]) : null,
-            level3: data.blobs[`${imageData.id}_level3`] ? this.base64ToBlob(data.blobs[`${imageData.id}_level3`]) : null,
-            level4: data.blobs[`${imageData.id}_level4`] ? this.base64ToBlob(data.blobs[`${imageData.id}_level4`]) : null
-          }
-
           const image: GameImage = {
             ...imageData,
-            pixelationLevels,
+            original: this.originalFromExportBlobs(data.blobs, imageData.id),
+            source: data.blobs[`${imageData.id}_source`] ? this.base64ToBlob(data.blobs[`${imageData.id}_source`]) : undefined,
             metadata: {
               ...imageData.metadata,
               uploadedAt: new Date(imageData.metadata.uploadedAt),
@@ -501,6 +797,8 @@ export class DatabaseService {
           // Continue with other images
         }
       }
+
+      await this.restoreBackupRecords(data)
       
       console.log('Import completed successfully')
     } catch (error) {
@@ -509,8 +807,442 @@ export class DatabaseService {
     }
   }
 
+  // Package (.ntt) operations - a ZIP with manifest.json plus each image's original.
+  // Images move between IndexedDB and the archive one at a time to keep memory flat.
+
+  /**
+   * Export the whole library, or only the given categories, as a .ntt package
+   */
+  async exportPackage(categoryIds?: string[]): Promise<Blob> {
+    try {
+      const allCategories = await this.getCategories()
+      const categories = categoryIds
+        ? allCategories.filter(category => categoryIds.includes(category.id))
+        : allCategories
+      const exportedCategoryIds = new Set(categories.map(category => category.id))
+      const imageRecords = (await this.getImageRecords())
+        .filter(record => exportedCategoryIds.has(record.categoryId))
+
+      console.log(`Packaging ${categories.length} categories and ${imageRecords.length} images`)
+
+      const zip = new ZipWriter()
+      const manifestImages: PackageManifest['images'] = []
+
+      for (const record of imageRecords) {
+        const original = await this.getOriginal(record.id)
+        if (!original) {
+          console.warn(`Skipping image ${record.originalName} without an original`)
+          continue
+        }
+
+        const path = `images/${record.id}/original.${this.getFileExtension(original.type)}`
+        await zip.addFile(path, original)
+
+        const source = await this.getImageSource(record.id)
+        const sourcePath = source ? `images/${record.id}/source.${this.getFileExtension(source.type)}` : undefined
+        if (source && sourcePath) {
+          await zip.addFile(sourcePath, source)
+        }
+        manifestImages.push({ ...record, original: path, source: sourcePath })
+      }
+
+      const manifest: PackageManifest = {
+        format: PACKAGE_FORMAT,
+        version: PACKAGE_VERSION,
+        exportDate: new Date().toISOString(),
+        scope: categoryIds ? 'category' : 'library',
+        categories,
+        images: manifestImages,
+        // Playlists, game history and practice schedules are personal and span categories,
+        // so only a whole library takes them along
+        ...(categoryIds ? {} : {
+          playlists: await this.getPlaylists(),
+          history: await this.getHistory(),
+          practice: await this.getPracticeSchedules()
+        })
+      }
+      await zip.addFile(PACKAGE_MANIFEST, JSON.stringify(manifest, null, 2))
+
+      console.log(`Package complete: ${zip.entryCount} files`)
+      return zip.finish()
+    } catch (error) {
+      console.error('Package export failed:', error)
+      throw new Error(`Export failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  /**
+   * Read just the manifest of a .ntt package, e.g. to confirm an import
+   */
+  async readPackageManifest(file: Blob): Promise<PackageManifest> {
+    return this.parsePackageManifest(await readZip(file))
+  }
+
+  private async parsePackageManifest(entries: Map<string, ZipEntry>): Promise<PackageManifest> {
+    const manifestEntry = entries.get(PACKAGE_MANIFEST)
+    if (!manifestEntry) {
+      throw new Error('Package is missing manifest.json')
+    }
+
+    const manifest = JSON.parse(await manifestEntry.text()) as PackageManifest
+    if (manifest.format !== PACKAGE_FORMAT || !Array.isArray(manifest.categories) || !Array.isArray(manifest.images)) {
+      throw new Error('Invalid package manifest')
+    }
+    return manifest
+  }
+
+  /**
+   * Import a .ntt package. By default categories and images are added, replacing any
+   * with the same id; replaceExisting clears the library first, like a JSON backup restore.
+   */
+  async importPackage(
+    file: Blob,
+    options: { replaceExisting?: boolean } = {}
+  ): Promise<{ categories: number; images: number; failed: string[] }> {
+    try {
+      const entries = await readZip(file)
+      const manifest = await this.parsePackageManifest(entries)
+      const failed: string[] = []
+
+      console.log(`Importing package with ${manifest.categories.length} categories and ${manifest.images.length} images`)
+
+      if (options.replaceExisting) {
+        await this.clearAllData()
+      }
+
+      const existingCategories = new Map((await this.getCategories()).map(category => [category.id, category]))
+      for (const category of manifest.categories) {
+        // Keep images already in a matching category alongside the imported ones
+        const existing = existingCategories.get(category.id)
+        const imageIds = existing
+          ? Array.from(new Set([...existing.imageIds, ...category.imageIds]))
+          : category.imageIds
+        await this.saveCategory({ ...category, imageIds })
+      }
+
+      let imported = 0
+      for (const { original: path, source: sourcePath, levels, ...imageData } of manifest.images) {
+        try {
+          const original = await this.readPackageOriginal(entries, { original: path, levels })
+          const source = await this.readPackageSource(entries, sourcePath)
+          if (!source) {
+            await this.deleteImageSource(imageData.id)
+          }
+
+          await this.saveImage({
+            ...imageData,
+            original,
+            source: source ?? undefined,
+            metadata: {
+              uploadedAt: new Date(imageData.metadata.uploadedAt),
+              processedAt: new Date(imageData.metadata.processedAt)
+            }
+          })
+          imported++
+        } catch (error) {
+          console.warn(`Failed to import image ${imageData.originalName}:`, error)
+          failed.push(imageData.originalName)
+        }
+      }
+
+      await this.restoreBackupRecords(manifest)
+
+      console.log(`Package import complete: ${imported} images, ${failed.length} failed`)
+      return { categories: manifest.categories.length, images: imported, failed }
+    } catch (error) {
+      console.error('Package import failed:', error)
+      throw new Error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  // Merge import - preview how a .ntt package or JSON backup compares with the library,
+  // then apply the skip/overwrite/rename/merge choice made for each item
+
+  /**
+   * List the categories and images in an import file as new, identical or conflicting
+   */
+  async previewImport(file: Blob): Promise<ImportPreview> {
+    const source = await this.openImportSource(file)
+    const library = { categories: await this.getCategories(), images: await this.getImageRecords() }
+    const { categories, images, loadOriginal, ...details } = source
+    return buildImportPreview({ categories, images }, library, details)
+  }
+
+  /**
+   * Import a file according to the actions chosen in its preview
+   */
+  async applyImport(file: Blob, preview: ImportPreview): Promise<ImportResult> {
+    try {
+      const source = await this.openImportSource(file)
+      const libraryCategories = new Map((await this.getCategories()).map(category => [category.id, category]))
+      const libraryImages = new Map((await this.getImageRecords()).map(image => [image.id, image]))
+      const incomingCategories = new Map(source.categories.map(category => [category.id, category]))
+      const incomingImages = new Map(source.images.map(image => [image.id, image]))
+      const usedImageIds = new Set(libraryImages.keys())
+      const result: ImportResult = { categories: 0, images: 0, skipped: 0, failed: [] }
+
+      // Imported images keep their id unless another image already has it
+      const claimImageId = (id: string): string => {
+        const claimed = usedImageIds.has(id) ? generateId() : id
+        usedImageIds.add(claimed)
+        return claimed
+      }
+
+      const saveIncomingImage = async (
+        imageId: string,
+        targetId: string,
+        categoryId: string,
+        changes: Partial<ImageRecord> = {}
+      ): Promise<boolean> => {
+        const record = incomingImages.get(imageId)
+        if (!record) return false
+        try {
+          // An overwritten image must not keep the untouched upload of the one it replaces
+          const imageSource = await source.loadSource(imageId)
+          if (!imageSource) {
+            await this.deleteImageSource(targetId)
+          }
+          await this.saveImage({
+            ...record,
+            ...changes,
+            id: targetId,
+            categoryId,
+            original: await source.loadOriginal(imageId),
+            source: imageSource ?? undefined,
+            metadata: {
+              uploadedAt: new Date(record.metadata.uploadedAt),
+              processedAt: new Date(record.metadata.processedAt)
+            }
+          })
+          result.images++
+          return true
+        } catch (error) {
+          console.warn(`Failed to import image ${record.originalName}:`, error)
+          result.failed.push(record.originalName)
+          return false
+        }
+      }
+
+      for (const item of preview.categories) {
+        const incoming = incomingCategories.get(item.id)
+        const target = item.existingId ? libraryCategories.get(item.existingId) : undefined
+        if (!incoming || item.action === 'skip') {
+          result.skipped += item.images.length
+          continue
+        }
+
+        const imageIds = item.action === 'merge' && target ? [...target.imageIds] : []
+        let categoryId = incoming.id
+        let category: Category = { ...incoming, updatedAt: new Date() }
+
+        if (item.action === 'overwrite' && target) {
+          // The imported category takes the library one's place, images included
+          categoryId = target.id
+          category = { ...category, id: target.id, createdAt: target.createdAt }
+          const replaced = new Set(item.images.map(image => image.existingId))
+          for (const id of target.imageIds) {
+            if (!replaced.has(id)) {
+              await this.deleteImage(id)
+            }
+          }
+        } else if (item.action === 'merge' && target) {
+          // The library keeps its name and settings; only images are added
+          categoryId = target.id
+          category = { ...target, updatedAt: new Date() }
+        } else if (item.action === 'rename' || libraryCategories.has(incoming.id)) {
+          categoryId = generateId()
+          category = { ...category, id: categoryId, name: item.renameTo?.trim() || incoming.name }
+        }
+
+        for (const image of item.images) {
+          // Overwriting a category replaces every matched image; renaming copies all of them
+          const action = item.action === 'overwrite' && image.existingId ? 'overwrite'
+            : item.action === 'rename' && image.action !== 'skip' ? 'rename'
+            : image.action
+          const existing = image.existingId ? libraryImages.get(image.existingId) : undefined
+
+          if (action === 'skip') {
+            result.skipped++
+          } else if (action === 'merge' && existing) {
+            const original = await this.getOriginal(existing.id)
+            if (!original) {
+              result.failed.push(existing.originalName)
+              continue
+            }
+            await this.saveImage({
+              ...existing,
+              ...mergeImageDetails(existing, incomingImages.get(image.id) ?? existing),
+              original,
+              metadata: {
+                uploadedAt: new Date(existing.metadata.uploadedAt),
+                processedAt: new Date(existing.metadata.processedAt)
+              }
+            })
+            result.images++
+          } else if (action === 'overwrite' && existing) {
+            if (await saveIncomingImage(image.id, existing.id, categoryId)) {
+              if (!imageIds.includes(existing.id)) imageIds.push(existing.id)
+            }
+          } else {
+            const targetId = claimImageId(image.id)
+            const changes = action === 'rename' && existing && categoryId === existing.categoryId
+              ? { originalName: `${existing.originalName} (imported)` }
+              : {}
+            if (await saveIncomingImage(image.id, targetId, categoryId, changes)) {
+              imageIds.push(targetId)
+            }
+          }
+        }
+
+        await this.saveCategory({ ...category, imageIds })
+        result.categories++
+      }
+
+      console.log(`Merge import complete: ${result.images} images, ${result.skipped} skipped, ${result.failed.length} failed`)
+      return result
+    } catch (error) {
+      console.error('Merge import failed:', error)
+      throw new Error(`Import failed: ${error instanceof Error ? error.message : 'Unknown error'}`)
+    }
+  }
+
+  private async openImportSource(file: Blob): Promise<ImportSource> {
+    // Packages are ZIP archives, which start with "PK"
+    const signature = new Uint8Array(await file.slice(0, 2).arrayBuffer())
+    if (signature[0] === 0x50 && signature[1] === 0x4b) {
+      const entries = await readZip(file)
+      const manifest = await this.parsePackageManifest(entries)
+      const files = new Map(manifest.images.map(({ id, original, source, levels }) => [id, { original, source, levels }]))
+      return {
+        format: 'package',
+        scope: manifest.scope,
+        exportDate: manifest.exportDate,
+        categories: manifest.categories,
+        images: manifest.images.map(({ original, source, levels, ...image }) => image),
+        loadOriginal: (imageId) => this.readPackageOriginal(entries, files.get(imageId) ?? {}),
+        loadSource: (imageId) => this.readPackageSource(entries, files.get(imageId)?.source)
+      }
+    }
+
+    const data = JSON.parse(await file.text()) as ExportData
+    if (!data.version || !Array.isArray(data.categories) || !Array.isArray(data.images)) {
+      throw new Error('Invalid backup file structure')
+    }
+    return {
+      format: 'json',
+      scope: 'library',
+      exportDate: data.exportDate,
+      categories: data.categories,
+      images: data.images.map(({ original, source, ...image }) => image),
+      loadOriginal: async (imageId) => this.originalFromExportBlobs(data.blobs, imageId),
+      loadSource: async (imageId) => data.blobs[`${imageId}_source`] ? this.base64ToBlob(data.blobs[`${imageId}_source`]) : null
+    }
+  }
+
+  // Find an image's original in a JSON backup: imageId_original, or before 1.2.0 the highest
+  // of its imageId_levelN entries
+  private originalFromExportBlobs(blobs: ExportData['blobs'], imageId: string): Blob {
+    const blobPrefix = `${imageId}_`
+    if (blobs[`${blobPrefix}original`]) {
+      return this.base64ToBlob(blobs[`${blobPrefix}original`])
+    }
+
+    const levels: Record<string, Blob> = {}
+    for (const [key, base64] of Object.entries(blobs)) {
+      if (key.startsWith(blobPrefix) && base64) {
+        levels[key.slice(blobPrefix.length)] = this.base64ToBlob(base64)
+      }
+    }
+    const original = this.originalFromLevels(levels)
+    if (!original) {
+      throw new Error('Image has no original in the backup')
+    }
+    return original
+  }
+
+  // Packages before 3.0.0 list a file per reveal stage, with the original last
+  private async readPackageOriginal(
+    entries: Map<string, ZipEntry>,
+    files: { original?: string; levels?: string[] }
+  ): Promise<Blob> {
+    const path = files.original ?? files.levels?.[files.levels.length - 1]
+    if (!path) {
+      throw new Error('Image has no files in the package')
+    }
+    const entry = entries.get(path)
+    if (!entry) {
+      throw new Error(`Missing file ${path}`)
+    }
+    return entry.blob(this.getMimeType(path))
+  }
+
+  private async readPackageSource(entries: Map<string, ZipEntry>, path?: string): Promise<Blob | null> {
+    const entry = path ? entries.get(path) : undefined
+    return entry && path ? entry.blob(this.getMimeType(path)) : null
+  }
+
+  // Image records without their blobs
+  private async getImageRecords(): Promise<ImageRecord[]> {
+    const store = this.getStore('images')
+    return new Promise((resolve, reject) => {
+      const request = store.getAll()
+      request.onerror = () => reject(request.error)
+      request.onsuccess = () => resolve(request.result)
+    })
+  }
+
+  private getFileExtension(mimeType: string): string {
+    if (mimeType === 'image/png') return 'png'
+    if (mimeType === 'image/webp') return 'webp'
+    return 'jpg'
+  }
+
+  private getMimeType(path: string): string {
+    if (path.endsWith('.png')) return 'image/png'
+    if (path.endsWith('.webp')) return 'image/webp'
+    return 'image/jpeg'
+  }
+
+  /**
+   * Save the playlists, game history and practice schedules that came with a backup. Dates
+   * arrive as ISO strings; a record that cannot be saved is skipped like an unreadable image.
+   */
+  private async restoreBackupRecords(backup: Pick<ExportData, 'playlists' | 'history' | 'practice'>): Promise<void> {
+    for (const playlist of backup.playlists ?? []) {
+      try {
+        await this.savePlaylist({
+          ...playlist,
+          createdAt: new Date(playlist.createdAt),
+          updatedAt: new Date(playlist.updatedAt)
+        })
+      } catch (error) {
+        console.warn(`Failed to import playlist ${playlist.name}:`, error)
+      }
+    }
+
+    for (const record of backup.history ?? []) {
+      try {
+        await this.saveHistoryRecord({ ...record, playedAt: new Date(record.playedAt) })
+      } catch (error) {
+        console.warn(`Failed to import game history record ${record.id}:`, error)
+      }
+    }
+
+    for (const schedule of backup.practice ?? []) {
+      try {
+        await this.savePracticeSchedule({
+          ...schedule,
+          dueAt: new Date(schedule.dueAt),
+          lastReviewedAt: new Date(schedule.lastReviewedAt)
+        })
+      } catch (error) {
+        console.warn(`Failed to import practice schedule for image ${schedule.imageId}:`, error)
+      }
+    }
+  }
+
   async clearAllData(): Promise<void> {
-    const storeNames: (keyof DBSchema)[] = ['categories', 'images', 'blobs', 'settings']
+    const storeNames: (keyof DBSchema)[] = ['categories', 'images', 'originals', 'sources', 'settings', 'uploadQueue', 'playlists', 'history', 'practice']
     
     for (const storeName of storeNames) {
       const store = this.getStore(storeName, 'readwrite')
@@ -0,0 +1,130 @@
+// Difficulty statistics for Name That Thing
+//
+// Built from the game history. Every play of an image scores between 0 and 1: a guess at the first
+// reveal step scores 0, a guess at the clear image scores 1, and an image nobody guessed scores 1
+// as well. Scores are relative to the number of reveal steps, so stage and tile games compare.
+// An image's difficulty is the average score of its plays.
+
+import type { PlayRecord } from '@/types'
+
+export interface DifficultyStats {
+  plays: number
+  guessed: number
+  skipped: number
+  guessRate: number // 0-1
+  averageGuessReveal: number | null // How far revealed (0-1) the image was when guessed; null if never guessed
+  averageSeconds: number
+  difficulty: number // 0 for always guessed straight away, 1 for never guessed
+}
+
+export interface ImageDifficulty extends DifficultyStats {
+  imageId: string
+  categoryId: string // Category of the image's latest play
+  lastPlayedAt: Date
+}
+
+export interface CategoryDifficulty extends DifficultyStats {
+  categoryId: string
+  imagesPlayed: number
+}
+
+export interface GameSummary {
+  gameId: string
+  gameName: string
+  playedAt: Date // When the first image was recorded
+  images: number
+  guessed: number
+  seconds: number
+}
+
+// How far the image was revealed, 0 at the first step and 1 at the last
+const getRevealFraction = (record: PlayRecord): number => {
+  if (record.revealStepCount <= 1) return 0
+  return Math.min(Math.max((record.revealStep - 1) / (record.revealStepCount - 1), 0), 1)
+}
+
+export const getPlayDifficulty = (record: PlayRecord): number => {
+  return record.outcome === 'guessed' ? getRevealFraction(record) : 1
+}
+
+const average = (values: number[]): number => {
+  return values.length > 0 ? values.reduce((sum, value) => sum + value, 0) / values.length : 0
+}
+
+const groupBy = <K>(records: PlayRecord[], key: (record: PlayRecord) => K): Map<K, PlayRecord[]> => {
+  const groups = new Map<K, PlayRecord[]>()
+  for (const record of records) {
+    const group = groups.get(key(record))
+    if (group) {
+      group.push(record)
+    } else {
+      groups.set(key(record), [record])
+    }
+  }
+  return groups
+}
+
+export const summarizePlays = (records: PlayRecord[]): DifficultyStats => {
+  const guessed = records.filter(record => record.outcome === 'guessed')
+  return {
+    plays: records.length,
+    guessed: guessed.length,
+    skipped: records.length - guessed.length,
+    guessRate: records.length > 0 ? guessed.length / records.length : 0,
+    averageGuessReveal: guessed.length > 0 ? average(guessed.map(getRevealFraction)) : null,
+    averageSeconds: average(records.map(record => record.secondsSpent)),
+    difficulty: average(records.map(getPlayDifficulty))
+  }
+}
+
+/**
+ * Difficulty of every image that has been played, by image id
+ */
+export const getImageDifficulties = (records: PlayRecord[]): Map<string, ImageDifficulty> => {
+  const difficulties = new Map<string, ImageDifficulty>()
+  for (const [imageId, plays] of groupBy(records, record => record.imageId)) {
+    const latest = plays.reduce((a, b) => (b.playedAt > a.playedAt ? b : a))
+    difficulties.set(imageId, {
+      imageId,
+      categoryId: latest.categoryId,
+      lastPlayedAt: latest.playedAt,
+      ...summarizePlays(plays)
+    })
+  }
+  return difficulties
+}
+
+/**
+ * Difficulty of each category over every play of its images, hardest first
+ */
+export const getCategoryDifficulties = (records: PlayRecord[]): CategoryDifficulty[] => {
+  return Array.from(groupBy(records, record => record.categoryId), ([categoryId, plays]) => ({
+    categoryId,
+    imagesPlayed: new Set(plays.map(play => play.imageId)).size,
+    ...summarizePlays(plays)
+  })).sort((a, b) => b.difficulty - a.difficulty)
+}
+
+/**
+ * Images ranked hardest first; ties go to the image played more often
+ */
+export const getHardestImages = (records: PlayRecord[], limit = 20, minPlays = 1): ImageDifficulty[] => {
+  return [...getImageDifficulties(records).values()]
+    .filter(image => image.plays >= minPlays)
+    .sort((a, b) => b.difficulty - a.difficulty || b.plays - a.plays)
+    .slice(0, limit)
+}
+
+/**
+ * One entry per game, most recent first
+ */
+export const summarizeGames = (records: PlayRecord[]): GameSummary[] => {
+  return Array.from(groupBy(records, record => record.gameId), ([gameId, plays]) => ({
+    gameId,
+    gameName: plays[0].gameName,
+    playedAt: new Date(Math.min(...plays.map(play => play.playedAt.getTime()))),
+    images: plays.length,
+    guessed: plays.filter(play => play.outcome === 'guessed').length,
+    seconds: plays.reduce((sum, play) => sum + play.secondsSpent, 0)
+  })).sort((a, b) => b.playedAt.getTime() - a.playedAt.getTime())
+}
@@ -0,0 +1,200 @@
+// Folder and ZIP image import for Name That Thing
+//
+// Turns a ZIP of images, a dropped folder tree or a directory picked with <input webkitdirectory>
+// into one group of files per folder, each of which becomes a category. Folders that wrap
+// everything else (e.g. "My Pack/" at the top of an archive) are skipped, and nested folders are
+// named by their path ("Animals / Cats"). Files that are not supported images are listed so they
+// can be reported instead of disappearing.
+
+import { readZip, type ZipEntry } from './zipArchive'
+import { PACKAGE_MANIFEST } from './database'
+
+export interface ImportFolder {
+  name: string
+  files: File[]
+}
+
+export interface FolderImportPlan {
+  folders: ImportFolder[]
+  unsupported: Array<{ fileName: string; error: string }>
+}
+
+interface CollectedFile {
+  segments: string[] // Folder names followed by the file name
+  file: File
+}
+
+const IMAGE_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+  avif: 'image/avif'
+}
+
+const DEFAULT_FOLDER_NAME = 'Imported Images'
+
+const getImageType = (fileName: string): string | undefined => {
+  return IMAGE_TYPES[fileName.split('.').pop()?.toLowerCase() ?? '']
+}
+
+// Operating system clutter is left out silently; it was never meant to be imported
+const isSystemFile = (segments: string[]): boolean => {
+  return segments.some(segment => segment.startsWith('.') || segment === '__MACOSX')
+    || ['thumbs.db', 'desktop.ini'].includes(segments[segments.length - 1].toLowerCase())
+}
+
+const isArchive = (fileName: string): boolean => fileName.toLowerCase().endsWith('.zip')
+
+const toSegments = (path: string): string[] => path.split('/').filter(segment => segment.length > 0)
+
+const stripExtension = (fileName: string): string => fileName.replace(/\.[^.]+$/, '') || fileName
+
+const buildPlan = (collected: CollectedFile[], rootName: string): FolderImportPlan => {
+  const unsupported: FolderImportPlan['unsupported'] = []
+  let items: CollectedFile[] = []
+
+  for (const item of collected) {
+    if (isSystemFile(item.segments)) continue
+    if (isArchive(item.file.name)) {
+      unsupported.push({ fileName: item.segments.join('/'), error: 'Archives inside folders are not imported' })
+    } else if (!item.file.type.startsWith('image/') || !getImageType(item.file.name)) {
+      unsupported.push({ fileName: item.segments.join('/'), error: 'Unsupported file type' })
+    } else {
+      items.push(item)
+    }
+  }
+
+  // Skip folders that wrap everything; the innermost one names any loose files
+  while (items.length > 0 && items.every(item => item.segments.length > 1 && item.segments[0] === items[0].segments[0])) {
+    rootName = items[0].segments[0]
+    items = items.map(item => ({ ...item, segments: item.segments.slice(1) }))
+  }
+
+  const folders = new Map<string, File[]>()
+  for (const item of items) {
+    const name = item.segments.length > 1 ? item.segments.slice(0, -1).join(' / ') : rootName
+    folders.set(name, [...(folders.get(name) ?? []), item.file])
+  }
+
+  return {
+    folders: [...folders].map(([name, files]) => ({ name, files })),
+    unsupported
+  }
+}
+
+// Give files the image type their extension implies when the browser left it empty
+const withImageType = (file: File): File => {
+  const type = getImageType(file.name)
+  return !file.type && type ? new File([file], file.name, { type, lastModified: file.lastModified }) : file
+}
+
+const collectArchive = async (entries: Map<string, ZipEntry>, prefix: string[] = []): Promise<CollectedFile[]> => {
+  const collected: CollectedFile[] = []
+  for (const [path, entry] of entries) {
+    const segments = toSegments(path)
+    if (segments.length === 0 || isSystemFile(segments)) continue
+    const name = segments[segments.length - 1]
+    const type = getImageType(name)
+    // Only images are read out of the archive; everything else just needs its name reported
+    const blob = type ? await entry.blob(type) : new Blob()
+    collected.push({ segments: [...prefix, ...segments], file: new File([blob], name, { type: type ?? '' }) })
+  }
+  return collected
+}
+
+/**
+ * Plan the import of a ZIP of images. Resolves null when the archive is a .ntt package,
+ * which goes through the package import instead.
+ */
+export const planArchiveImport = async (archive: File): Promise<FolderImportPlan | null> => {
+  const entries = await readZip(archive)
+  if (entries.has(PACKAGE_MANIFEST)) {
+    return null
+  }
+  return buildPlan(await collectArchive(entries), stripExtension(archive.name))
+}
+
+/**
+ * Plan the import of a directory chosen with <input type="file" webkitdirectory>
+ */
+export const planDirectoryImport = (files: FileList | File[]): FolderImportPlan => {
+  const collected = Array.from(files).map(file => ({
+    segments: toSegments(file.webkitRelativePath || file.name),
+    file: withImageType(file)
+  }))
+  return buildPlan(collected, DEFAULT_FOLDER_NAME)
+}
+
+/**
+ * True when a drop contains folders or archives rather than only loose files
+ */
+export const containsFolders = (items: DataTransferItemList): boolean => {
+  return Array.from(items).some(item => {
+    const entry = item.webkitGetAsEntry()
+    return entry?.isDirectory || (entry?.isFile && isArchive(entry.name))
+  })
+}
+
+const readDirectory = (directory: FileSystemDirectoryEntry): Promise<FileSystemEntry[]> => {
+  const reader = directory.createReader()
+  const entries: FileSystemEntry[] = []
+  return new Promise((resolve, reject) => {
+    // readEntries returns the listing in batches until it comes back empty
+    const readBatch = () => {
+      reader.readEntries((batch) => {
+        if (batch.length === 0) {
+          resolve(entries)
+        } else {
+          entries.push(...batch)
+          readBatch()
+        }
+      }, reject)
+    }
+    readBatch()
+  })
+}
+
+const readFileEntry = (entry: FileSystemFileEntry): Promise<File> => {
+  return new Promise((resolve, reject) => entry.file(resolve, reject))
+}
+
+const collectEntry = async (entry: FileSystemEntry, parents: string[]): Promise<CollectedFile[]> => {
+  if (entry.isDirectory) {
+    const children = await readDirectory(entry as FileSystemDirectoryEntry)
+    const nested = await Promise.all(children.map(child => collectEntry(child, [...parents, entry.name])))
+    return nested.flat()
+  }
+  const file = await readFileEntry(entry as FileSystemFileEntry)
+  return [{ segments: [...parents, entry.name], file: withImageType(file) }]
+}
+
+/**
+ * Plan the import of dropped folders and ZIP files. Each dropped archive is treated as a folder
+ * named after it.
+ */
+export const planDroppedImport = async (items: DataTransferItemList): Promise<FolderImportPlan> => {
+  // Entries must be taken before the first await; the drop data is cleared afterwards
+  const entries = Array.from(items)
+    .map(item => item.webkitGetAsEntry())
+    .filter((entry): entry is FileSystemEntry => entry !== null)
+
+  const collected: CollectedFile[] = []
+  const packages: FolderImportPlan['unsupported'] = []
+  for (const entry of entries) {
+    if (entry.isFile && isArchive(entry.name)) {
+      const archiveEntries = await readZip(await readFileEntry(entry as FileSystemFileEntry))
+      if (archiveEntries.has(PACKAGE_MANIFEST)) {
+        packages.push({ fileName: entry.name, error: 'Packages are imported with the Import button' })
+        continue
+      }
+      collected.push(...await collectArchive(archiveEntries, [stripExtension(entry.name)]))
+    } else {
+      collected.push(...await collectEntry(entry, []))
+    }
+  }
+
+  const plan = buildPlan(collected, DEFAULT_FOLDER_NAME)
+  return { ...plan, unsupported: [...packages, ...plan.unsupported] }
+}
@@ -0,0 +1,81 @@
+// Image ordering for Name That Thing
+//
+// Decides the order a game plays its images in. Shuffles are Fisher–Yates and follow a seed when one
+// is given, so two rooms with the same images and seed play the same sequence. Difficulty orders use
+// the host's rating where an image has one and its recorded difficulty otherwise; images with
+// neither sit in the middle, and images of equal difficulty are shuffled among themselves.
+
+import type { GameImage, ImageOrder, PlayRecord } from '@/types'
+import { getImageDifficulties, summarizeGames } from './difficultyStats'
+import { createSeededRandom, shuffleArray } from '@/utils'
+
+export interface OrderOptions {
+  order: ImageOrder
+  seed?: string // Blank for a different shuffle every game
+  avoidRecentGames?: number // Leave out images played in this many of the latest games, 0 allows repeats
+  history?: PlayRecord[]
+}
+
+export interface OrderResult {
+  images: GameImage[]
+  skippedRecent: number // Images left out because they were played recently
+}
+
+const UNRATED_DIFFICULTY = 0.5
+
+/**
+ * Turn any seed text into a number for createSeededRandom (FNV-1a)
+ */
+export const hashSeed = (seed: string): number => {
+  let hash = 0x811c9dc5
+  for (let i = 0; i < seed.length; i++) {
+    hash ^= seed.charCodeAt(i)
+    hash = Math.imul(hash, 0x01000193)
+  }
+  return hash >>> 0
+}
+
+/**
+ * Ids of the images played in the latest games
+ */
+export const getRecentlyPlayedIds = (history: PlayRecord[], gameCount: number): Set<string> => {
+  if (gameCount <= 0) return new Set()
+  const recentGameIds = new Set(summarizeGames(history).slice(0, gameCount).map(game => game.gameId))
+  return new Set(history.filter(record => recentGameIds.has(record.gameId)).map(record => record.imageId))
+}
+
+/**
+ * Difficulty of each image from 0 (easy) to 1 (hard), by image id
+ */
+export const getDifficultyScores = (images: GameImage[], history: PlayRecord[]): Map<string, number> => {
+  const recorded = getImageDifficulties(history)
+  return new Map(images.map(image => [
+    image.id,
+    image.difficulty ? (image.difficulty - 1) / 4 : recorded.get(image.id)?.difficulty ?? UNRATED_DIFFICULTY
+  ]))
+}
+
+export const orderImages = (images: GameImage[], options: OrderOptions): OrderResult => {
+  const history = options.history ?? []
+  const recent = getRecentlyPlayedIds(history, options.avoidRecentGames ?? 0)
+  const fresh = images.filter(image => !recent.has(image.id))
+  // When every image was played recently, repeat them rather than start an empty game
+  const pool = fresh.length > 0 ? fresh : images
+  const skippedRecent = images.length - pool.length
+
+  if (options.order === 'stored') {
+    return { images: pool, skippedRecent }
+  }
+
+  const seed = options.seed?.trim()
+  const shuffled = shuffleArray(pool, seed ? createSeededRandom(hashSeed(seed)) : Math.random)
+  if (options.order === 'shuffle') {
+    return { images: shuffled, skippedRecent }
+  }
+
+  // Array sort is stable, so the shuffle decides the order within each difficulty
+  const scores = getDifficultyScores(pool, history)
+  const direction = options.order === 'easy-to-hard' ? 1 : -1
+  shuffled.sort((a, b) => direction * ((scores.get(a.id) ?? 0) - (scores.get(b.id) ?? 0)))
+  return { images: shuffled, skippedRecent }
+}
@@ -1,20 +1,132 @@
 // Image processing service for Name That Thing
 
-import type { GameImage, ImageProcessingResult, PixelationLevel } from '@/types'
+import type { GameImage, ImageEdits, ImageProcessingResult, ImageRevealSettings } from '@/types'
 import {
+  drawOrientedImage,
   generateId,
+  getOrientedDimensions,
   isValidImageType,
   isValidImageSize,
   loadImageFromFile,
-  resizeImage,
-  createPixelatedImage
+  resizeImage
 } from '@/utils'
+import {
+  renderRevealStage,
+  describeRevealStages,
+  createRevealOptions,
+  encodeCanvas,
+  type RevealOptions
+} from './revealEffects'
+import { WorkerPool, JobCancelledError } from './workerPool'
+import { computePerceptualHash } from './perceptualHash'
+import type { ImageWorkerRequest, ImageWorkerResult } from '@/workers/imageProcessing.worker'
+
+export interface WorkerProcessingOptions {
+  maxWidth?: number
+  minWidth?: number
+  quality?: number
+  signal?: AbortSignal
+}
+
+export interface StageRenderOptions {
+  quality?: number
+  pixelSizes?: number[] // Strength per stage, 0 for the original
+  reveal?: RevealOptions
+  signal?: AbortSignal
+}
 
 export class ImageProcessingService {
   private static readonly DEFAULT_PIXELATION_LEVELS = [64, 32, 16, 0] // 0 means original, higher numbers are more pixelated
   private static readonly DEFAULT_MAX_WIDTH = 1280
   private static readonly DEFAULT_MIN_WIDTH = 800
   private static readonly DEFAULT_QUALITY = 0.9
+  private static readonly DEFAULT_WORKER_CONCURRENCY = 2
+
+  private static workerPool: WorkerPool<ImageWorkerRequest, ImageWorkerResult> | null = null
+
+  /**
+   * Whether uploads can be processed off the main thread in this browser
+   */
+  static get supportsWorkers(): boolean {
+    return typeof Worker !== 'undefined' &&
+      typeof OffscreenCanvas !== 'undefined' &&
+      'convertToBlob' in OffscreenCanvas.prototype &&
+      typeof createImageBitmap !== 'undefined'
+  }
+
+  /**
+   * Set how many images the worker pool processes at once
+   */
+  static setWorkerConcurrency(concurrency: number): void {
+    ImageProcessingService.getWorkerPool().setConcurrency(concurrency)
+  }
+
+  private static getWorkerPool(): WorkerPool<ImageWorkerRequest, ImageWorkerResult> {
+    if (!ImageProcessingService.workerPool) {
+      ImageProcessingService.workerPool = new WorkerPool(
+        () => new Worker(new URL('../workers/imageProcessing.worker.ts', import.meta.url), { type: 'module' }),
+        ImageProcessingService.DEFAULT_WORKER_CONCURRENCY
+      )
+    }
+    return ImageProcessingService.workerPool
+  }
+
+  /**
+   * Process a single image file in the worker pool, falling back to the main thread
+   * when workers or OffscreenCanvas are unavailable. Rejects with JobCancelledError
+   * when the signal is aborted.
+   */
+  static async processImageInWorker(
+    file: File,
+    categoryId: string,
+    options: WorkerProcessingOptions = {}
+  ): Promise<ImageProcessingResult> {
+    const {
+      maxWidth = ImageProcessingService.DEFAULT_MAX_WIDTH,
+      minWidth = ImageProcessingService.DEFAULT_MIN_WIDTH,
+      quality = ImageProcessingService.DEFAULT_QUALITY,
+      signal
+    } = options
+
+    const fallback = () => ImageProcessingService.processImage(file, categoryId, maxWidth, quality, minWidth)
+
+    if (!ImageProcessingService.supportsWorkers) {
+      return fallback()
+    }
+
+    // Invalid files fail the same way on either path
+    if (!isValidImageType(file) || !isValidImageSize(file)) {
+      return fallback()
+    }
+
+    try {
+      const result = await ImageProcessingService.getWorkerPool().run(
+        { kind: 'process', file, maxWidth, minWidth, quality },
+        signal
+      )
+      if (result.kind !== 'process') {
+        throw new Error('Unexpected worker result')
+      }
+
+      return {
+        success: true,
+        processedImage: ImageProcessingService.createGameImage(
+          file,
+          categoryId,
+          result.original,
+          result.dimensions,
+          result.perceptualHash
+        )
+      }
+    } catch (error) {
+      if (error instanceof JobCancelledError) {
+        throw error
+      }
+      // Some browsers decode fewer formats off the main thread; try again on the page
+      console.warn(`ImageProcessingService: Worker failed for ${file.name}, processing on main thread:`, error)
+      return fallback()
+    }
+  }
 
   /**
    * Process a single image file for the game
@@ -24,8 +136,7 @@ export class ImageProcessingService {
     categoryId: string,
     maxWidth: number = ImageProcessingService.DEFAULT_MAX_WIDTH,
     quality: number = ImageProcessingService.DEFAULT_QUALITY,
-    minWidth: number = ImageProcessingService.DEFAULT_MIN_WIDTH,
-    pixelSizes: number[] = ImageProcessingService.DEFAULT_PIXELATION_LEVELS
+    minWidth: number = ImageProcessingService.DEFAULT_MIN_WIDTH
   ): Promise<ImageProcessingResult> {
     try {
       // Validate file
@@ -46,48 +157,23 @@ export class ImageProcessingService {
       // Load image
       const img = await loadImageFromFile(file)
       
-      // Resize image
-      const { canvas, blob: resizedBlob, dimensions } = await resizeImage(img, maxWidth, quality, minWidth)
-      
-      // Create pixelation levels
-      const pixelationLevels = await ImageProcessingService.createPixelationLevels(
-        canvas,
-        quality,
-        pixelSizes
-      )
-
-      // Final validation to ensure all levels are present and valid
-      const isValid = ImageProcessingService.validatePixelationLevels(pixelationLevels)
-      if (!isValid) {
-        throw new Error('Final validation failed: Generated pixelation levels are incomplete')
+      // Resize image - only this original is stored; reveal stages are rendered from it when needed
+      const { blob: resizedBlob, dimensions } = await resizeImage(img, maxWidth, quality, minWidth)
+      if (!resizedBlob || resizedBlob.size === 0) {
+        throw new Error('Failed to create resized image')
       }
 
-      console.log('ImageProcessingService: Final validation passed for', file.name, 'with levels:', {
-        level1: pixelationLevels.level1?.size || 0,
-        level2: pixelationLevels.level2?.size || 0,
-        level3: pixelationLevels.level3?.size || 0,
-        level4: pixelationLevels.level4?.size || 0
-      })
-
-      // Create GameImage object
-      const gameImage: GameImage = {
-        id: generateId(),
-        categoryId,
-        originalName: file.name,
-        mimeType: file.type,
-        originalSize: file.size,
-        processedSize: resizedBlob.size,
-        dimensions,
-        pixelationLevels,
-        metadata: {
-          uploadedAt: new Date(),
-          processedAt: new Date()
-        }
-      }
+      console.log('ImageProcessingService: Resized', file.name, 'to', dimensions, `(${resizedBlob.size} bytes)`)
 
       return {
         success: true,
-        processedImage: gameImage
+        processedImage: ImageProcessingService.createGameImage(
+          file,
+          categoryId,
+          resizedBlob,
+          dimensions,
+          computePerceptualHash(img)
+        )
       }
     } catch (error) {
       return {
@@ -97,6 +183,140 @@ export class ImageProcessingService {
     }
   }
 
+  private static createGameImage(
+    file: File,
+    categoryId: string,
+    original: Blob,
+    dimensions: GameImage['dimensions'],
+    perceptualHash: string
+  ): GameImage {
+    return {
+      id: generateId(),
+      categoryId,
+      originalName: file.name,
+      mimeType: file.type,
+      originalSize: file.size,
+      processedSize: original.size,
+      dimensions,
+      original,
+      reveal: ImageProcessingService.createRevealSettings(),
+      perceptualHash,
+      metadata: {
+        uploadedAt: new Date(),
+        processedAt: new Date()
+      }
+    }
+  }
+
+  /**
+   * Random zoom point and seed for a new image
+   */
+  static createRevealSettings(): ImageRevealSettings {
+    const { focus, seed } = createRevealOptions()
+    return { focus, seed }
+  }
+
+  /**
+   * Render every reveal stage of an image from its original, most obscured first.
+   * Stages with strength 0 are the original itself. Uses the worker pool when available.
+   */
+  static async renderRevealStages(original: Blob, options: StageRenderOptions = {}): Promise<Blob[]> {
+    const {
+      quality = ImageProcessingService.DEFAULT_QUALITY,
+      pixelSizes = ImageProcessingService.DEFAULT_PIXELATION_LEVELS,
+      reveal = {},
+      signal
+    } = options
+
+    if (ImageProcessingService.supportsWorkers) {
+      // Only plain data can be posted to a worker, so copy any reactive arrays and objects
+      const request: ImageWorkerRequest = {
+        kind: 'stages',
+        source: original,
+        quality,
+        pixelSizes: [...pixelSizes],
+        reveal: {
+          effect: reveal.effect,
+          focus: reveal.focus ? { ...reveal.focus } : undefined,
+          seed: reveal.seed
+        }
+      }
+
+      try {
+        const result = await ImageProcessingService.getWorkerPool().run(request, signal)
+        if (result.kind === 'stages' && ImageProcessingService.validatePixelationLevels(result.levels)) {
+          return result.levels
+        }
+        throw new Error('Generated reveal stages are incomplete')
+      } catch (error) {
+        if (error instanceof JobCancelledError) {
+          throw error
+        }
+        console.warn('ImageProcessingService: Worker failed to render stages, rendering on main thread:', error)
+      }
+    }
+
+    const canvas = await ImageProcessingService.loadCanvasFromBlob(original)
+    const levels = await ImageProcessingService.createPixelationLevels(canvas, original, quality, pixelSizes, reveal)
+    return levels as Blob[]
+  }
+
+  /**
+   * Difference hash of a stored image, for images saved before hashes were recorded
+   */
+  static async getPerceptualHash(blob: Blob): Promise<string> {
+    const canvas = await ImageProcessingService.loadCanvasFromBlob(blob)
+    const hash = computePerceptualHash(canvas)
+    canvas.width = 1
+    canvas.height = 1
+    return hash
+  }
+
+  /**
+   * Rotate, flip and crop an untouched original. Edits that change nothing return the source as is.
+   */
+  static async applyImageEdits(
+    source: Blob,
+    edits: ImageEdits,
+    quality: number = ImageProcessingService.DEFAULT_QUALITY
+  ): Promise<{ blob: Blob; dimensions: GameImage['dimensions'] }> {
+    const canvas = await ImageProcessingService.loadCanvasFromBlob(source)
+    const unchanged = edits.rotation === 0 && !edits.flipHorizontal && !edits.flipVertical && !edits.crop
+    if (unchanged) {
+      return { blob: source, dimensions: { width: canvas.width, height: canvas.height } }
+    }
+
+    const oriented = getOrientedDimensions(canvas.width, canvas.height, edits.rotation)
+    const crop = edits.crop ?? { x: 0, y: 0, width: 1, height: 1 }
+    const left = Math.round(crop.x * oriented.width)
+    const top = Math.round(crop.y * oriented.height)
+    const width = Math.max(1, Math.round(crop.width * oriented.width))
+    const height = Math.max(1, Math.round(crop.height * oriented.height))
+
+    const target = document.createElement('canvas')
+    target.width = width
+    target.height = height
+    const ctx = target.getContext('2d')
+    if (!ctx) {
+      throw new Error('Could not create canvas context for image edits')
+    }
+    ctx.imageSmoothingEnabled = true
+    ctx.imageSmoothingQuality = 'high'
+    // Shift so only the cropped part of the oriented image lands on the canvas
+    ctx.translate(-left, -top)
+    drawOrientedImage(ctx, canvas, canvas.width, canvas.height, edits)
+
+    const blob = await encodeCanvas(target, quality)
+    canvas.width = 1
+    canvas.height = 1
+    target.width = 1
+    target.height = 1
+    if (!blob || blob.size === 0) {
+      throw new Error('Failed to create edited image')
+    }
+    return { blob, dimensions: { width, height } }
+  }
+
   /**
    * Process multiple image files
    */
@@ -106,7 +326,6 @@ export class ImageProcessingService {
     maxWidth?: number,
     quality?: number,
     minWidth?: number,
-    pixelSizes?: number[],
     onProgress?: (current: number, total: number) => void
   ): Promise<{
     successful: GameImage[]
@@ -125,8 +344,7 @@ export class ImageProcessingService {
           categoryId,
           maxWidth,
           quality,
-          minWidth,
-          pixelSizes
+          minWidth
         )
 
         if (result.success && result.processedImage) {
@@ -161,7 +379,6 @@ export class ImageProcessingService {
       maxWidth?: number
       minWidth?: number
       quality?: number
-      pixelSizes?: number[]
       batchSize?: number
       onProgress?: (processed: number, total: number) => void
       onImageComplete?: (result: ImageProcessingResult, index: number) => void
@@ -171,7 +388,6 @@ export class ImageProcessingService {
       maxWidth = ImageProcessingService.DEFAULT_MAX_WIDTH,
       minWidth = ImageProcessingService.DEFAULT_MIN_WIDTH,
       quality = ImageProcessingService.DEFAULT_QUALITY,
-      pixelSizes = ImageProcessingService.DEFAULT_PIXELATION_LEVELS,
       onProgress,
       onImageComplete
     } = options
@@ -192,8 +408,7 @@ export class ImageProcessingService {
           categoryId,
           maxWidth,
           quality,
-          minWidth,
-          pixelSizes
+          minWidth
         )
         
         results.push(result)
@@ -227,14 +442,16 @@ export class ImageProcessingService {
    */
   private static async createPixelationLevels(
     canvas: HTMLCanvasElement,
+    original: Blob,
     quality: number,
     pixelSizes: number[] = ImageProcessingService.DEFAULT_PIXELATION_LEVELS,
+    reveal: RevealOptions = {},
     retryCount: number = 0
-  ): Promise<GameImage['pixelationLevels']> {
+  ): Promise<Array<Blob | null>> {
     const maxRetries = 5 // Increased from 3 to 5 retries for better reliability
     
     try {
-      const result = await this.createPixelationLevelsInternal(canvas, quality, pixelSizes)
+      const result = await this.createPixelationLevelsInternal(canvas, original, quality, pixelSizes, reveal)
       
       // Double-check validation after successful creation
       const isValid = this.validatePixelationLevels(result)
@@ -261,7 +478,7 @@ export class ImageProcessingService {
           console.log(`ImageProcessingService: Reducing quality to ${retryQuality} for retry ${retryCount + 1}`)
         }
         
-        return this.createPixelationLevels(canvas, retryQuality, pixelSizes, retryCount + 1)
+        return this.createPixelationLevels(canvas, original, retryQuality, pixelSizes, reveal, retryCount + 1)
       } else {
         console.error(`ImageProcessingService: Failed to create pixelation levels after ${maxRetries} retries:`, error)
         
@@ -269,7 +486,7 @@ export class ImageProcessingService {
         if (quality > 0.6) {
           console.log('ImageProcessingService: Attempting final retry with minimal quality (0.6)')
           try {
-            return await this.createPixelationLevelsInternal(canvas, 0.6)
+            return await this.createPixelationLevelsInternal(canvas, original, 0.6, pixelSizes, reveal)
           } catch (finalError) {
             console.error('ImageProcessingService: Final low-quality attempt also failed:', finalError)
           }
@@ -281,21 +498,25 @@ export class ImageProcessingService {
   }
 
   /**
-   * Internal method to create all pixelation levels for an image
+   * Internal method to create all pixelation levels for an image.
+   * Obscured stages are drawn by the chosen reveal effect; a size of 0 is the original blob as-is.
    */
   private static async createPixelationLevelsInternal(
     canvas: HTMLCanvasElement,
+    original: Blob,
     quality: number,
-    pixelSizes: number[] = ImageProcessingService.DEFAULT_PIXELATION_LEVELS
-  ): Promise<GameImage['pixelationLevels']> {
-    const levels: GameImage['pixelationLevels'] = {} as GameImage['pixelationLevels']
+    pixelSizes: number[] = ImageProcessingService.DEFAULT_PIXELATION_LEVELS,
+    reveal: RevealOptions = {}
+  ): Promise<Array<Blob | null>> {
+    const levels: Array<Blob | null> = []
+    const { effect, stages } = describeRevealStages(pixelSizes, reveal)
     
     console.log('ImageProcessingService: Starting pixelation level creation with enhanced validation')
     
     // Create a copy of the canvas for each level with enhanced error handling and validation
     for (let i = 0; i < pixelSizes.length; i++) {
       const pixelSize = pixelSizes[i]
-      const levelKey = `level${i + 1}` as keyof GameImage['pixelationLevels']
+      const levelKey = `level${i + 1}`
       
       console.log(`ImageProcessingService: Creating ${levelKey} with pixel size ${pixelSize}`)
       
@@ -319,34 +540,16 @@ export class ImageProcessingService {
         // Add a small delay to prevent browser overload
         await new Promise(resolve => setTimeout(resolve, 50))
         
-        if (pixelSize === 0) {
-          // Level 4: Original image
-          console.log(`ImageProcessingService: Creating original image blob for ${levelKey}`)
-          levels[levelKey] = await new Promise<Blob>((resolve, reject) => {
-            const timeoutId = setTimeout(() => {
-              reject(new Error(`Timeout creating original blob for ${levelKey}`))
-            }, 15000) // Increased timeout to 15 seconds
-            
-            levelCanvas!.toBlob(
-              (blob) => {
-                clearTimeout(timeoutId)
-                if (blob && blob.size > 0) {
-                  console.log(`ImageProcessingService: Created ${levelKey} blob, size: ${blob.size}`)
-                  resolve(blob)
-                } else {
-                  reject(new Error(`Failed to create original blob for ${levelKey}, size: ${blob?.size || 0}`))
-                }
-              },
-              'image/jpeg',
-              quality
-            )
-          })
+        const stage = stages[i]
+        if (!stage) {
+          // Final level: the stored original, which needs no rendering
+          levels[i] = original
         } else {
-          // Pixelated levels
-          console.log(`ImageProcessingService: Creating pixelated image blob for ${levelKey} with ${pixelSize}px pixels`)
-          const pixelatedBlob = await createPixelatedImage(levelCanvas, pixelSize, quality)
+          // Obscured levels
+          console.log(`ImageProcessingService: Creating ${effect} image blob for ${levelKey} with strength ${pixelSize}`)
+          const pixelatedBlob = await renderRevealStage(levelCanvas, effect, stage, quality)
           if (pixelatedBlob && pixelatedBlob.size > 0) {
-            levels[levelKey] = pixelatedBlob
+            levels[i] = pixelatedBlob
             console.log(`ImageProcessingService: Created ${levelKey} pixelated blob, size: ${pixelatedBlob.size}`)
           } else {
             throw new Error(`Failed to create pixelated blob for ${levelKey}, size: ${pixelatedBlob?.size || 0}`)
@@ -354,7 +557,7 @@ export class ImageProcessingService {
         }
         
         // Validate the level was created successfully before continuing
-        if (!levels[levelKey] || levels[levelKey]!.size === 0) {
+        if (!levels[i] || levels[i]!.size === 0) {
           throw new Error(`Level ${levelKey} validation failed after creation`)
         }
         
@@ -380,39 +583,29 @@ export class ImageProcessingService {
     }
     
     // Final comprehensive validation of all levels
-    const invalidLevels = Object.entries(levels).filter(([_, blob]) => !blob || blob.size === 0)
-    if (invalidLevels.length > 0) {
-      const invalidKeys = invalidLevels.map(([key, _]) => key)
+    const invalidKeys = levels
+      .map((blob, index) => (!blob || blob.size === 0) ? `level${index + 1}` : null)
+      .filter((key): key is string => key !== null)
+    if (invalidKeys.length > 0 || levels.length !== pixelSizes.length) {
       console.error(`ImageProcessingService: Invalid levels detected:`, invalidKeys)
-      console.error(`ImageProcessingService: Level sizes:`, {
-        level1: levels.level1?.size || 0,
-        level2: levels.level2?.size || 0,
-        level3: levels.level3?.size || 0,
-        level4: levels.level4?.size || 0
-      })
-      throw new Error(`Failed to create valid pixelation levels: ${invalidKeys.join(', ')}`)
+      console.error(`ImageProcessingService: Level sizes:`, this.describeLevelSizes(levels))
+      throw new Error(`Failed to create valid pixelation levels: ${invalidKeys.join(', ') || 'missing levels'}`)
     }
     
-    console.log('ImageProcessingService: All pixelation levels created successfully:', {
-      level1: levels.level1?.size || 0,
-      level2: levels.level2?.size || 0,
-      level3: levels.level3?.size || 0,
-      level4: levels.level4?.size || 0
-    })
+    console.log('ImageProcessingService: All pixelation levels created successfully:', this.describeLevelSizes(levels))
     
     return levels
   }
 
   /**
-   * Get blob URL for a specific pixelation level
+   * Describe level blob sizes for logging, keyed as level1..levelN
    */
-  static getBlobUrl(image: GameImage, level: PixelationLevel): string | null {
-    const levelKey = `level${level}` as keyof GameImage['pixelationLevels']
-    const blob = image.pixelationLevels[levelKey]
-    if (!blob) {
-      return null
-    }
-    return URL.createObjectURL(blob)
+  static describeLevelSizes(levels: Array<Blob | null>): Record<string, number> {
+    const sizes: Record<string, number> = {}
+    levels.forEach((blob, index) => {
+      sizes[`level${index + 1}`] = blob?.size || 0
+    })
+    return sizes
   }
 
   /**
@@ -490,13 +683,16 @@ export class ImageProcessingService {
   /**
    * Validate that all pixelation levels are properly generated
    */
-  static validatePixelationLevels(levels: GameImage['pixelationLevels']): boolean {
-    const requiredLevels: (keyof GameImage['pixelationLevels'])[] = ['level1', 'level2', 'level3', 'level4']
+  static validatePixelationLevels(levels: Array<Blob | null>): boolean {
+    if (!Array.isArray(levels) || levels.length < 2) {
+      console.warn(`ImageProcessingService: Expected at least 2 pixelation levels, found ${levels?.length || 0}`)
+      return false
+    }
     
-    for (const level of requiredLevels) {
-      const blob = levels[level]
+    for (let i = 0; i < levels.length; i++) {
+      const blob = levels[i]
       if (!blob || blob.size === 0) {
-        console.warn(`ImageProcessingService: Invalid or missing blob for ${level}, size: ${blob?.size || 0}`)
+        console.warn(`ImageProcessingService: Invalid or missing blob for level${i + 1}, size: ${blob?.size || 0}`)
         return false
       }
     }
@@ -505,72 +701,13 @@ export class ImageProcessingService {
   }
 
   /**
-   * Regenerate missing pixelation levels for an image
+   * Draw an image blob onto a canvas at its own size
    */
-  static async regeneratePixelationLevels(
-    originalBlob: Blob,
-    existingLevels: GameImage['pixelationLevels'],
-    quality: number = 0.9
-  ): Promise<GameImage['pixelationLevels']> {
-    console.log('ImageProcessingService: Regenerating missing pixelation levels')
-    
-    // CRITICAL: Only use the original image (level4) or the provided originalBlob as source
-    // Never use pixelated levels as source for regeneration as this corrupts the image quality
-    let sourceBlob = existingLevels.level4 || originalBlob
-    
+  private static async loadCanvasFromBlob(sourceBlob: Blob): Promise<HTMLCanvasElement> {
     if (!sourceBlob || sourceBlob.size === 0) {
-      throw new Error('No original (non-pixelated) source blob available for regeneration. Cannot regenerate from pixelated levels.')
+      throw new Error('No original image available to render reveal stages from')
     }
-    
-    console.log(`ImageProcessingService: Using ${existingLevels.level4 ? 'level4' : 'originalBlob'} as regeneration source (${sourceBlob.size} bytes)`)
-    
-    // Load the source image
-    const img = await new Promise<HTMLImageElement>((resolve, reject) => {
-      const image = new Image()
-      const url = URL.createObjectURL(sourceBlob)
-      
-      image.onload = () => {
-        URL.revokeObjectURL(url)
-        resolve(image)
-      }
-      
-      image.onerror = () => {
-        URL.revokeObjectURL(url)
-        reject(new Error('Failed to load source image for regeneration'))
-      }
-      
-      image.src = url
-    })
-    
-    // Create canvas from the image
-    const canvas = document.createElement('canvas')
-    canvas.width = img.width
-    canvas.height = img.height
-    const ctx = canvas.getContext('2d')
-    
-    if (!ctx) {
-      throw new Error('Could not create canvas context for regeneration')
-    }
-    
-    ctx.drawImage(img, 0, 0)
-    
-    // Generate all levels from the original source
-    const newLevels = await this.createPixelationLevels(canvas, quality)
-    
-    // Return the newly generated levels (don't merge with existing pixelated levels)
-    console.log('ImageProcessingService: Regeneration complete - all levels regenerated from original source')
-    return newLevels
-  }
 
-  /**
-   * Force regenerate all pixelation levels for an image (useful for fixing corrupted data)
-   */
-  static async forceRegenerateAllLevels(
-    sourceBlob: Blob,
-    quality: number = 0.9
-  ): Promise<GameImage['pixelationLevels']> {
-    console.log('ImageProcessingService: Force regenerating all pixelation levels')
-    
     // Load the source image
     const img = await new Promise<HTMLImageElement>((resolve, reject) => {
       const image = new Image()
@@ -583,7 +720,7 @@ export class ImageProcessingService {
       
       image.onerror = () => {
         URL.revokeObjectURL(url)
-        reject(new Error('Failed to load source image for regeneration'))
+        reject(new Error('Failed to load original image'))
       }
       
       image.src = url
@@ -596,22 +733,11 @@ export class ImageProcessingService {
     const ctx = canvas.getContext('2d')
     
     if (!ctx) {
-      throw new Error('Could not create canvas context for regeneration')
+      throw new Error('Could not create canvas context for reveal stages')
     }
     
     ctx.drawImage(img, 0, 0)
-    
-    // Generate all levels fresh
-    const newLevels = await this.createPixelationLevels(canvas, quality)
-    
-    // Validate all levels were created successfully
-    const isValid = this.validatePixelationLevels(newLevels)
-    if (!isValid) {
-      throw new Error('Failed to regenerate valid pixelation levels')
-    }
-    
-    console.log('ImageProcessingService: Force regeneration complete')
-    return newLevels
+    return canvas
   }
 
   /**
@@ -0,0 +1,186 @@
+// Compares an import file with the library to build the merge-import preview
+//
+// Everything here works on plain records, so the decisions can be checked without IndexedDB.
+// DatabaseService.previewImport() gathers the records and DatabaseService.applyImport() carries out the choices.
+
+import type {
+  Category,
+  GameImage,
+  ImportAction,
+  ImportCategoryItem,
+  ImportImageItem,
+  ImportItemStatus,
+  ImportPreview,
+  ImportResult
+} from '@/types'
+
+export type ImageRecord = Omit<GameImage, 'original' | 'source'>
+
+export interface LibraryContents {
+  categories: Category[]
+  images: ImageRecord[]
+}
+
+// Actions offered for each status; the first one is the default
+export const CATEGORY_ACTIONS: Record<ImportItemStatus, ImportAction[]> = {
+  new: ['import', 'skip'],
+  identical: ['skip', 'overwrite'],
+  conflict: ['merge', 'overwrite', 'rename', 'skip']
+}
+
+export const IMAGE_ACTIONS: Record<ImportItemStatus, ImportAction[]> = {
+  new: ['import', 'skip'],
+  identical: ['skip', 'overwrite'],
+  conflict: ['skip', 'overwrite', 'rename', 'merge']
+}
+
+export const IMPORT_ACTION_LABELS: Record<ImportAction, string> = {
+  import: 'Import',
+  skip: 'Skip',
+  overwrite: 'Overwrite',
+  rename: 'Keep both',
+  merge: 'Merge'
+}
+
+const normalizeName = (name: string): string => name.trim().toLowerCase()
+
+const sameList = <T>(a: T[] = [], b: T[] = []): boolean => {
+  return a.length === b.length && a.every((value, index) => value === b[index])
+}
+
+// Ids differ when two people upload the same file, so also match on the file itself
+const isSameUpload = (a: ImageRecord, b: ImageRecord): boolean => {
+  return a.originalName === b.originalName &&
+    a.originalSize === b.originalSize &&
+    a.dimensions.width === b.dimensions.width &&
+    a.dimensions.height === b.dimensions.height
+}
+
+const isSameImageContent = (a: ImageRecord, b: ImageRecord): boolean => {
+  return isSameUpload(a, b) &&
+    a.processedSize === b.processedSize &&
+    (a.answer || '') === (b.answer || '') &&
+    sameList(a.alternateAnswers, b.alternateAnswers) &&
+    sameList(a.hints, b.hints) &&
+    sameList(a.tags, b.tags) &&
+    a.difficulty === b.difficulty
+}
+
+const isSameCategorySetup = (a: Category, b: Category): boolean => {
+  return a.name === b.name &&
+    (a.description || '') === (b.description || '') &&
+    (a.revealEffect || '') === (b.revealEffect || '') &&
+    sameList(a.revealStages, b.revealStages) &&
+    sameList(a.tags, b.tags)
+}
+
+/**
+ * Pick a name not already in use, e.g. "Animals (2)"
+ */
+export const suggestUniqueName = (name: string, takenNames: string[]): string => {
+  const taken = new Set(takenNames.map(normalizeName))
+  let suffix = 2
+  while (taken.has(normalizeName(`${name} (${suffix})`))) {
+    suffix++
+  }
+  return `${name} (${suffix})`
+}
+
+const compareImage = (image: ImageRecord, candidates: ImageRecord[]): ImportImageItem => {
+  const match = candidates.find(candidate => candidate.id === image.id) ??
+    candidates.find(candidate => isSameUpload(candidate, image))
+  const status: ImportItemStatus = !match ? 'new' : isSameImageContent(image, match) ? 'identical' : 'conflict'
+
+  return {
+    id: image.id,
+    name: image.answer || image.originalName,
+    status,
+    action: IMAGE_ACTIONS[status][0],
+    existingId: match?.id
+  }
+}
+
+/**
+ * Classify every incoming category and image as new, identical or conflicting and
+ * give each the default action for its status
+ */
+export const buildImportPreview = (
+  incoming: LibraryContents,
+  library: LibraryContents,
+  source: Omit<ImportPreview, 'categories'>
+): ImportPreview => {
+  const libraryById = new Map(library.categories.map(category => [category.id, category]))
+  const libraryByName = new Map(library.categories.map(category => [normalizeName(category.name), category]))
+  const libraryNames = library.categories.map(category => category.name)
+
+  const categories = incoming.categories.map((category): ImportCategoryItem => {
+    const match = libraryById.get(category.id) ?? libraryByName.get(normalizeName(category.name))
+    const candidates = match ? library.images.filter(image => image.categoryId === match.id) : []
+    const images = incoming.images
+      .filter(image => image.categoryId === category.id)
+      .map(image => compareImage(image, candidates))
+
+    const status: ImportItemStatus = !match
+      ? 'new'
+      : isSameCategorySetup(category, match) && images.every(image => image.status === 'identical')
+        ? 'identical'
+        : 'conflict'
+
+    return {
+      id: category.id,
+      name: category.name,
+      status,
+      action: CATEGORY_ACTIONS[status][0],
+      existingId: match?.id,
+      existingName: match?.name,
+      renameTo: match ? suggestUniqueName(category.name, libraryNames) : undefined,
+      images
+    }
+  })
+
+  return { ...source, categories }
+}
+
+/**
+ * Combine the presenter details of a library image with an incoming copy of it.
+ * The library answer wins; alternates and hints from both are kept, without repeats.
+ */
+export const mergeImageDetails = (
+  existing: ImageRecord,
+  incoming: ImageRecord
+): Pick<GameImage, 'answer' | 'alternateAnswers' | 'hints' | 'tags' | 'difficulty'> => {
+  const answer = existing.answer || incoming.answer
+  const alternates = [...(existing.alternateAnswers || []), ...(incoming.alternateAnswers || [])]
+  if (existing.answer && incoming.answer && normalizeName(existing.answer) !== normalizeName(incoming.answer)) {
+    alternates.push(incoming.answer)
+  }
+
+  const unique = (values: string[]) => {
+    const seen = new Set<string>()
+    return values.filter(value => {
+      const key = normalizeName(value)
+      if (seen.has(key) || key === normalizeName(answer || '')) return false
+      seen.add(key)
+      return true
+    })
+  }
+
+  return {
+    answer,
+    alternateAnswers: unique(alternates),
+    hints: Array.from(new Set([...(existing.hints || []), ...(incoming.hints || [])])),
+    tags: existing.tags || incoming.tags ? Array.from(new Set([...(existing.tags || []), ...(incoming.tags || [])])) : undefined,
+    difficulty: existing.difficulty ?? incoming.difficulty
+  }
+}
+
+/**
+ * One-line summary of a finished import for a toast
+ */
+export const describeImportResult = (result: ImportResult): string => {
+  const categories = `${result.categories} categor${result.categories === 1 ? 'y' : 'ies'}`
+  const parts = [`Imported ${result.images} image${result.images === 1 ? '' : 's'} into ${categories}`]
+  if (result.skipped > 0) parts.push(`${result.skipped} skipped`)
+  if (result.failed.length > 0) parts.push(`${result.failed.length} could not be read`)
+  return parts.join(', ')
+}
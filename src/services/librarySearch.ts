@@ -0,0 +1,143 @@
+// Library search for Name That Thing
+//
+// Searches the loaded categories and images in memory. Every word of the query has to match
+// somewhere: an image's file name, answer, alternate answers or tags, or the name and tags of its
+// category. A word written as #tag only matches that exact tag. Case and accents are ignored.
+
+import type { Category, GameImage } from '@/types'
+
+export type ImageOrientation = 'any' | 'landscape' | 'portrait' | 'square'
+
+export interface LibrarySearchFilters {
+  query: string
+  categoryId: string // Empty for every category
+  minWidth: number | null
+  minHeight: number | null
+  orientation: ImageOrientation
+  uploadedFrom: string // yyyy-mm-dd, inclusive; empty for no limit
+  uploadedTo: string
+}
+
+export interface LibrarySearchResult {
+  categories: Category[] // Categories whose own name, description or tags match the query
+  images: GameImage[]
+}
+
+export const DEFAULT_SEARCH_FILTERS: LibrarySearchFilters = {
+  query: '',
+  categoryId: '',
+  minWidth: null,
+  minHeight: null,
+  orientation: 'any',
+  uploadedFrom: '',
+  uploadedTo: ''
+}
+
+// Width and height within this ratio of each other count as square
+const SQUARE_TOLERANCE = 0.05
+
+const normalizeText = (text: string): string => {
+  return text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').toLowerCase().trim()
+}
+
+/**
+ * Clean up tags typed by the user: trimmed, lower case, without a leading # and without repeats.
+ * Accepts a comma separated string or a list.
+ */
+export const normalizeTags = (input: string | string[] | undefined): string[] | undefined => {
+  const values = typeof input === 'string' ? input.split(',') : input ?? []
+  const tags = Array.from(new Set(
+    values.map(tag => tag.trim().replace(/^#+/, '').toLowerCase()).filter(tag => tag.length > 0)
+  ))
+  return tags.length > 0 ? tags : undefined
+}
+
+export const hasActiveFilters = (filters: LibrarySearchFilters): boolean => {
+  return filters.query.trim().length > 0 ||
+    filters.categoryId !== '' ||
+    (filters.minWidth ?? 0) > 0 ||
+    (filters.minHeight ?? 0) > 0 ||
+    filters.orientation !== 'any' ||
+    filters.uploadedFrom !== '' ||
+    filters.uploadedTo !== ''
+}
+
+const parseQuery = (query: string): { words: string[]; tags: string[] } => {
+  const words: string[] = []
+  const tags: string[] = []
+  for (const token of normalizeText(query).split(/\s+/).filter(Boolean)) {
+    if (token.startsWith('#') && token.length > 1) {
+      tags.push(token.slice(1))
+    } else {
+      words.push(token)
+    }
+  }
+  return { words, tags }
+}
+
+const getOrientation = (image: GameImage): Exclude<ImageOrientation, 'any'> => {
+  const { width, height } = image.dimensions
+  if (Math.abs(width - height) <= Math.max(width, height) * SQUARE_TOLERANCE) return 'square'
+  return width > height ? 'landscape' : 'portrait'
+}
+
+// Date inputs give local calendar days, so compare against local midnight
+const toDayStart = (day: string): number => new Date(`${day}T00:00:00`).getTime()
+
+const matchesImageFilters = (image: GameImage, filters: LibrarySearchFilters): boolean => {
+  if (filters.categoryId && image.categoryId !== filters.categoryId) return false
+  if (filters.minWidth && image.dimensions.width < filters.minWidth) return false
+  if (filters.minHeight && image.dimensions.height < filters.minHeight) return false
+  if (filters.orientation !== 'any' && getOrientation(image) !== filters.orientation) return false
+
+  const uploadedAt = new Date(image.metadata.uploadedAt).getTime()
+  if (filters.uploadedFrom && uploadedAt < toDayStart(filters.uploadedFrom)) return false
+  // The end date includes that whole day
+  if (filters.uploadedTo && uploadedAt >= toDayStart(filters.uploadedTo) + 24 * 60 * 60 * 1000) return false
+  return true
+}
+
+const matchesQuery = (
+  query: { words: string[]; tags: string[] },
+  texts: Array<string | undefined>,
+  tags: string[]
+): boolean => {
+  const haystack = texts.filter((text): text is string => Boolean(text)).map(normalizeText)
+  const normalizedTags = tags.map(normalizeText)
+  haystack.push(...normalizedTags)
+  return query.tags.every(tag => normalizedTags.includes(tag)) &&
+    query.words.every(word => haystack.some(text => text.includes(word)))
+}
+
+/**
+ * Images and categories matching the search, in library order
+ */
+export const searchLibrary = (
+  categories: Category[],
+  images: GameImage[],
+  filters: LibrarySearchFilters
+): LibrarySearchResult => {
+  const query = parseQuery(filters.query)
+  const categoriesById = new Map(categories.map(category => [category.id, category]))
+
+  const matchingImages = images.filter(image => {
+    if (!matchesImageFilters(image, filters)) return false
+    const category = categoriesById.get(image.categoryId)
+    return matchesQuery(
+      query,
+      [image.originalName, image.answer, ...(image.alternateAnswers ?? []), category?.name],
+      [...(image.tags ?? []), ...(category?.tags ?? [])]
+    )
+  })
+
+  // Category matches only make sense for a text search
+  const hasQuery = query.words.length > 0 || query.tags.length > 0
+  const matchingCategories = hasQuery
+    ? categories.filter(category =>
+        (!filters.categoryId || category.id === filters.categoryId) &&
+        matchesQuery(query, [category.name, category.description], category.tags ?? [])
+      )
+    : []
+
+  return { categories: matchingCategories, images: matchingImages }
+}
@@ -0,0 +1,163 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest'
+import { IDBFactory } from 'fake-indexeddb'
+import { runMigrations, MigrationError, MIGRATIONS, LATEST_SCHEMA_VERSION, type Migration } from './migrations'
+
+const DB_NAME = 'migrations-test'
+
+let factory: IDBFactory
+
+// Open the database at a version the way DatabaseService.init does, aborting the upgrade on failure
+const openDatabase = (version: number, migrations: Migration[] = MIGRATIONS): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME, version)
+    let migrationError: unknown = null
+
+    request.onerror = () => reject(migrationError ?? request.error)
+    request.onsuccess = () => resolve(request.result)
+    request.onupgradeneeded = (event) => {
+      const transaction = request.transaction!
+      const steps = migrations.filter(migration => migration.version <= version)
+      runMigrations(request.result, transaction, event.oldVersion, steps).catch((error) => {
+        migrationError = error
+        transaction.abort()
+      })
+    }
+  })
+}
+
+// Open whatever version is on disk, without upgrading
+const openCurrent = (): Promise<IDBDatabase> => {
+  return new Promise((resolve, reject) => {
+    const request = factory.open(DB_NAME)
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+}
+
+const putAll = (db: IDBDatabase, storeName: string, records: unknown[]): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeName, 'readwrite')
+    const store = transaction.objectStore(storeName)
+    records.forEach(record => store.put(record))
+    transaction.oncomplete = () => resolve()
+    transaction.onerror = () => reject(transaction.error)
+  })
+}
+
+const getAll = <T = any>(db: IDBDatabase, storeName: string): Promise<T[]> => {
+  return new Promise((resolve, reject) => {
+    const request = db.transaction(storeName).objectStore(storeName).getAll()
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => resolve(request.result)
+  })
+}
+
+describe('runMigrations', () => {
+  beforeEach(() => {
+    factory = new IDBFactory()
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('upgrades a version 1 database to the latest schema', async () => {
+    const v1 = await openDatabase(1)
+    expect(Array.from(v1.objectStoreNames).sort()).toEqual(['blobs', 'categories', 'images', 'settings'])
+    await putAll(v1, 'categories', [{ id: 'c1', name: 'Animals', createdAt: '2024-01-01T00:00:00.000Z' }])
+    v1.close()
+
+    const latest = await openDatabase(LATEST_SCHEMA_VERSION)
+    expect(latest.version).toBe(LATEST_SCHEMA_VERSION)
+    expect(Array.from(latest.objectStoreNames).sort()).toEqual([
+      'categories',
+      'history',
+      'images',
+      'originals',
+      'playlists',
+      'practice',
+      'settings',
+      'sources',
+      'uploadQueue'
+    ])
+    expect(await getAll(latest, 'categories')).toEqual([
+      { id: 'c1', name: 'Animals', createdAt: '2024-01-01T00:00:00.000Z' }
+    ])
+    latest.close()
+  })
+
+  it('keeps only the highest level blob of each image as its original in version 2', async () => {
+    const v1 = await openDatabase(1)
+    await putAll(v1, 'images', [
+      { id: 'img1', categoryId: 'c1', originalName: 'cat.png' },
+      { id: 'img2', categoryId: 'c1', originalName: 'dog.png' }
+    ])
+    await putAll(v1, 'blobs', [
+      { id: 'img1_level1', imageId: 'img1', level: 'level1', blob: 'img1 blurred' },
+      { id: 'img1_level3', imageId: 'img1', level: 'level3', blob: 'img1 original' },
+      { id: 'img1_level2', imageId: 'img1', level: 'level2', blob: 'img1 clearer' },
+      { id: 'img2_level1', imageId: 'img2', level: 'level1', blob: 'img2 blurred' },
+      { id: 'img2_level10', imageId: 'img2', level: 'level10', blob: 'img2 original' }
+    ])
+    v1.close()
+
+    const v2 = await openDatabase(2)
+    expect(v2.objectStoreNames.contains('blobs')).toBe(false)
+
+    const originals = await getAll(v2, 'originals')
+    expect(originals.sort((a, b) => a.imageId.localeCompare(b.imageId))).toEqual([
+      { imageId: 'img1', blob: 'img1 original' },
+      { imageId: 'img2', blob: 'img2 original' }
+    ])
+
+    // Every image gets a fixed reveal point and seed
+    const images = await getAll(v2, 'images')
+    expect(images).toHaveLength(2)
+    images.forEach(image => {
+      expect(image.reveal.focus.x).toBeGreaterThanOrEqual(0.25)
+      expect(image.reveal.focus.x).toBeLessThanOrEqual(0.75)
+      expect(Number.isInteger(image.reveal.seed)).toBe(true)
+    })
+    v2.close()
+  })
+
+  it('rolls the whole upgrade back when a step throws', async () => {
+    const current = await openDatabase(LATEST_SCHEMA_VERSION)
+    await putAll(current, 'categories', [{ id: 'c1', name: 'Animals', createdAt: '2024-01-01T00:00:00.000Z' }])
+    current.close()
+
+    const failingVersion = LATEST_SCHEMA_VERSION + 1
+    const failing: Migration = {
+      version: failingVersion,
+      description: 'Break halfway through',
+      migrate: async ({ createStore, updateRecords }) => {
+        createStore('doomed', { keyPath: 'id' })
+        await updateRecords('categories', (record) => ({ ...record, name: 'Changed' }))
+        throw new Error('Something went wrong')
+      }
+    }
+
+    const error = await openDatabase(failingVersion, [...MIGRATIONS, failing]).catch(err => err)
+    expect(error).toBeInstanceOf(MigrationError)
+    expect(error.fromVersion).toBe(LATEST_SCHEMA_VERSION)
+    expect(error.failedVersion).toBe(failingVersion)
+    expect(error.message).toContain('Something went wrong')
+
+    const reopened = await openCurrent()
+    expect(reopened.version).toBe(LATEST_SCHEMA_VERSION)
+    expect(reopened.objectStoreNames.contains('doomed')).toBe(false)
+    expect(await getAll(reopened, 'categories')).toEqual([
+      { id: 'c1', name: 'Animals', createdAt: '2024-01-01T00:00:00.000Z' }
+    ])
+    reopened.close()
+  })
+
+  it('refuses migrations that are out of order', async () => {
+    const outOfOrder: Migration[] = [MIGRATIONS[1], MIGRATIONS[0]]
+    await expect(runMigrations({} as IDBDatabase, {} as IDBTransaction, 0, outOfOrder)).rejects.toThrow(
+      'Migrations must be in ascending version order'
+    )
+  })
+})
@@ -0,0 +1,263 @@
+// Versioned IndexedDB schema migrations for Name That Thing
+//
+// Each migration brings the database up to its version and runs inside the browser's
+// versionchange transaction. If a step throws, the transaction is aborted and IndexedDB rolls the
+// whole upgrade back, so existing data stays exactly as it was at the previous version.
+// Steps must only wait on requests made through the context; awaiting anything else (timers,
+// fetch, canvas encoding) lets the transaction auto-commit before the step finishes.
+//
+// runMigrations() only needs a database and its upgrade transaction, so the steps are tested
+// against a fake IndexedDB implementation without the rest of the app (migrations.test.ts).
+
+export interface IndexDefinition {
+  name: string
+  keyPath: string | string[]
+  options?: IDBIndexParameters
+}
+
+export interface MigrationContext {
+  db: IDBDatabase
+  transaction: IDBTransaction
+  oldVersion: number
+  // Create a store and its indexes, or add any missing indexes to an existing one
+  createStore: (name: string, options: IDBObjectStoreParameters, indexes?: IndexDefinition[]) => IDBObjectStore
+  deleteStore: (name: string) => void
+  // Rewrite every record: return a new record to replace it, null to delete it, or undefined to leave it
+  updateRecords: (storeName: string, update: (record: any) => any) => Promise<number>
+  // Move every record (e.g. blobs) to another store, optionally reshaping it; return null to drop a record
+  moveRecords: (fromStore: string, toStore: string, transform?: (record: any) => any) => Promise<number>
+}
+
+export interface Migration {
+  version: number
+  description: string
+  migrate: (context: MigrationContext) => void | Promise<void>
+}
+
+/**
+ * A migration step failed. The upgrade was rolled back and the database is still at fromVersion.
+ */
+export class MigrationError extends Error {
+  constructor(
+    readonly fromVersion: number,
+    readonly failedVersion: number,
+    readonly reason: unknown
+  ) {
+    super(
+      `Database upgrade to version ${failedVersion} failed: ` +
+      (reason instanceof Error ? reason.message : String(reason))
+    )
+    this.name = 'MigrationError'
+  }
+}
+
+// Ordered oldest first. Never edit a released step: add a new version instead.
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create categories, images, blobs and settings stores',
+    migrate: ({ createStore }) => {
+      createStore('categories', { keyPath: 'id' }, [
+        { name: 'name', keyPath: 'name' },
+        { name: 'createdAt', keyPath: 'createdAt' }
+      ])
+      createStore('images', { keyPath: 'id' }, [
+        { name: 'categoryId', keyPath: 'categoryId' },
+        { name: 'originalName', keyPath: 'originalName' }
+      ])
+      // Blobs are kept apart from image records so listing images stays fast
+      createStore('blobs', { keyPath: 'id' }, [
+        { name: 'imageId', keyPath: 'imageId' },
+        { name: 'level', keyPath: 'level' }
+      ])
+      createStore('settings', { keyPath: 'key' })
+    }
+  },
+  {
+    version: 2,
+    description: 'Keep only each image\'s original; reveal stages are rendered on demand',
+    migrate: async ({ createStore, deleteStore, updateRecords, moveRecords }) => {
+      // Blob records are keyed imageId_levelN, and the highest level of an image is its original
+      const levelNumber = (record: any) => Number(/^level(\d+)$/.exec(record.level)?.[1] ?? 0)
+      const originalLevels = new Map<string, number>()
+      await updateRecords('blobs', (record) => {
+        originalLevels.set(record.imageId, Math.max(originalLevels.get(record.imageId) ?? 0, levelNumber(record)))
+        return undefined
+      })
+
+      createStore('originals', { keyPath: 'imageId' })
+      await moveRecords('blobs', 'originals', (record) => {
+        return levelNumber(record) === originalLevels.get(record.imageId)
+          ? { imageId: record.imageId, blob: record.blob }
+          : null
+      })
+      deleteStore('blobs')
+
+      // Stages used to be baked with a random zoom point and seed; keep one per image from now on
+      await updateRecords('images', (record) => record.reveal ? undefined : {
+        ...record,
+        reveal: {
+          focus: { x: 0.25 + Math.random() * 0.5, y: 0.25 + Math.random() * 0.5 },
+          seed: Math.floor(Math.random() * 0xffffffff)
+        }
+      })
+    }
+  },
+  {
+    version: 3,
+    description: 'Keep the untouched upload of edited images',
+    migrate: ({ createStore }) => {
+      createStore('sources', { keyPath: 'imageId' })
+    }
+  },
+  {
+    version: 4,
+    description: 'Queue uploads so an interrupted upload can be resumed',
+    migrate: ({ createStore }) => {
+      createStore('uploadQueue', { keyPath: 'id' }, [
+        { name: 'categoryId', keyPath: 'categoryId' },
+        { name: 'status', keyPath: 'status' }
+      ])
+    }
+  },
+  {
+    version: 5,
+    description: 'Add playlists that mix images from several categories',
+    migrate: ({ createStore }) => {
+      createStore('playlists', { keyPath: 'id' }, [
+        { name: 'name', keyPath: 'name' }
+      ])
+    }
+  },
+  {
+    version: 6,
+    description: 'Record played images for game history and difficulty statistics',
+    migrate: ({ createStore }) => {
+      createStore('history', { keyPath: 'id' }, [
+        { name: 'gameId', keyPath: 'gameId' },
+        { name: 'imageId', keyPath: 'imageId' },
+        { name: 'categoryId', keyPath: 'categoryId' },
+        { name: 'playedAt', keyPath: 'playedAt' }
+      ])
+    }
+  },
+  {
+    version: 7,
+    description: 'Keep a spaced-repetition schedule per image for solo practice',
+    migrate: ({ createStore }) => {
+      createStore('practice', { keyPath: 'imageId' }, [
+        { name: 'dueAt', keyPath: 'dueAt' }
+      ])
+    }
+  }
+]
+
+export const LATEST_SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+const walkStore = (
+  store: IDBObjectStore,
+  visit: (cursor: IDBCursorWithValue) => void
+): Promise<number> => {
+  return new Promise((resolve, reject) => {
+    let count = 0
+    const request = store.openCursor()
+    request.onerror = () => reject(request.error)
+    request.onsuccess = () => {
+      const cursor = request.result
+      if (!cursor) {
+        resolve(count)
+        return
+      }
+      try {
+        visit(cursor)
+        count++
+        cursor.continue()
+      } catch (error) {
+        reject(error)
+      }
+    }
+  })
+}
+
+const createContext = (db: IDBDatabase, transaction: IDBTransaction, oldVersion: number): MigrationContext => {
+  return {
+    db,
+    transaction,
+    oldVersion,
+
+    createStore: (name, options, indexes = []) => {
+      const store = db.objectStoreNames.contains(name)
+        ? transaction.objectStore(name)
+        : db.createObjectStore(name, options)
+      for (const index of indexes) {
+        if (!store.indexNames.contains(index.name)) {
+          store.createIndex(index.name, index.keyPath, { unique: false, ...index.options })
+        }
+      }
+      return store
+    },
+
+    deleteStore: (name) => {
+      if (db.objectStoreNames.contains(name)) {
+        db.deleteObjectStore(name)
+      }
+    },
+
+    updateRecords: async (storeName, update) => {
+      let changed = 0
+      await walkStore(transaction.objectStore(storeName), (cursor) => {
+        const result = update(cursor.value)
+        if (result === null) {
+          cursor.delete()
+          changed++
+        } else if (result !== undefined) {
+          cursor.update(result)
+          changed++
+        }
+      })
+      return changed
+    },
+
+    moveRecords: async (fromStore, toStore, transform = (record) => record) => {
+      const target = transaction.objectStore(toStore)
+      let moved = 0
+      await walkStore(transaction.objectStore(fromStore), (cursor) => {
+        const record = transform(cursor.value)
+        if (record !== null) {
+          target.put(record)
+          moved++
+        }
+        cursor.delete()
+      })
+      return moved
+    }
+  }
+}
+
+/**
+ * Run every migration newer than oldVersion, in order, inside the given upgrade transaction.
+ * Throws a MigrationError naming the step that failed; the caller should abort the transaction.
+ */
+export const runMigrations = async (
+  db: IDBDatabase,
+  transaction: IDBTransaction,
+  oldVersion: number,
+  migrations: Migration[] = MIGRATIONS
+): Promise<void> => {
+  migrations.forEach((migration, index) => {
+    if (index > 0 && migration.version <= migrations[index - 1].version) {
+      throw new Error(`Migrations must be in ascending version order (found ${migration.version} after ${migrations[index - 1].version})`)
+    }
+  })
+
+  const context = createContext(db, transaction, oldVersion)
+  for (const migration of migrations.filter(step => step.version > oldVersion)) {
+    console.log(`Migrating database to version ${migration.version}: ${migration.description}`)
+    try {
+      await migration.migrate(context)
+    } catch (error) {
+      console.error(`Migration to version ${migration.version} failed:`, error)
+      throw new MigrationError(oldVersion, migration.version, error)
+    }
+  }
+}
@@ -0,0 +1,98 @@
+// WebRTC signalling helpers for the buzzer
+//
+// There is no signalling server. The host's offer and each player's answer travel by hand as codes,
+// or as a QR code of the join link. A code holds the whole session description with its ICE
+// candidates, deflated where the browser has CompressionStream, in base64url. No STUN or TURN
+// servers are configured, so players connect over the local network.
+
+const ICE_GATHERING_TIMEOUT_MS = 5000
+const DEFLATED_PREFIX = 'z'
+const PLAIN_PREFIX = 'p'
+const JOIN_PATH = '/buzz'
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+export const createPeerConnection = () => new RTCPeerConnection({ iceServers: [] })
+
+/**
+ * Wait until every local candidate is in the description, so a single code is enough to connect.
+ * Gives up after a few seconds and uses the candidates found by then.
+ */
+export const waitForIceGathering = (connection: RTCPeerConnection): Promise<void> => {
+  if (connection.iceGatheringState === 'complete') return Promise.resolve()
+
+  return new Promise(resolve => {
+    const finish = () => {
+      clearTimeout(timeout)
+      connection.removeEventListener('icegatheringstatechange', onStateChange)
+      resolve()
+    }
+    const onStateChange = () => {
+      if (connection.iceGatheringState === 'complete') finish()
+    }
+    const timeout = setTimeout(finish, ICE_GATHERING_TIMEOUT_MS)
+    connection.addEventListener('icegatheringstatechange', onStateChange)
+  })
+}
+
+const toBase64Url = (bytes: Uint8Array): string => {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+const fromBase64Url = (text: string): Uint8Array => {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+const pipeBytes = async (bytes: Uint8Array, transform: CompressionStream | DecompressionStream): Promise<Uint8Array> => {
+  const stream = new Blob([bytes as BlobPart]).stream().pipeThrough(transform)
+  return new Uint8Array(await new Response(stream).arrayBuffer())
+}
+
+/**
+ * Turn a local session description into a code the other side can paste
+ */
+export const encodeSignal = async (description: RTCSessionDescriptionInit): Promise<string> => {
+  const bytes = textEncoder.encode(JSON.stringify({ type: description.type, sdp: description.sdp }))
+  if (typeof CompressionStream === 'undefined') {
+    return PLAIN_PREFIX + toBase64Url(bytes)
+  }
+  return DEFLATED_PREFIX + toBase64Url(await pipeBytes(bytes, new CompressionStream('deflate-raw')))
+}
+
+export const decodeSignal = async (code: string, expectedType: 'offer' | 'answer'): Promise<RTCSessionDescriptionInit> => {
+  const trimmed = code.replace(/\s+/g, '')
+  let description: RTCSessionDescriptionInit
+
+  try {
+    const bytes = fromBase64Url(trimmed.slice(1))
+    const json = trimmed.startsWith(DEFLATED_PREFIX)
+      ? textDecoder.decode(await pipeBytes(bytes, new DecompressionStream('deflate-raw')))
+      : textDecoder.decode(bytes)
+    description = JSON.parse(json)
+  } catch {
+    throw new Error('This code is incomplete or was mistyped')
+  }
+
+  if (description.type !== expectedType || typeof description.sdp !== 'string') {
+    throw new Error(expectedType === 'offer' ? 'This is not an invite code' : 'This is not a player\'s answer code')
+  }
+  return description
+}
+
+/**
+ * Link that opens the player page with the invite filled in. The code rides in the fragment,
+ * so it never reaches the web server.
+ */
+export const buildJoinUrl = (code: string): string => {
+  return `${window.location.origin}${JOIN_PATH}#offer=${code}`
+}
+
+export const readInviteFromUrl = (): string | null => {
+  return new URLSearchParams(window.location.hash.slice(1)).get('offer')
+}
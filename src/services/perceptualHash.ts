@@ -0,0 +1,81 @@
+// Perceptual hashing for Name That Thing
+//
+// A difference hash (dHash) shrinks the image to 9×8 grey pixels and records, for each row,
+// whether every pixel is brighter than its right-hand neighbour. Re-encoded, resized or lightly
+// retouched copies of a picture end up only a few of the 64 bits apart.
+
+import type { GameImage } from '@/types'
+import { createRevealCanvas } from './revealEffects'
+
+const HASH_WIDTH = 9
+const HASH_HEIGHT = 8
+
+// Hashes at most this many bits apart are treated as the same picture
+export const DUPLICATE_HASH_DISTANCE = 10
+
+export interface SimilarImage {
+  image: GameImage
+  distance: number // Differing bits; 0 is an exact perceptual match
+}
+
+/**
+ * 64-bit difference hash of an image as 16 hex characters. Works on the page and in workers.
+ */
+export const computePerceptualHash = (source: CanvasImageSource): string => {
+  const canvas = createRevealCanvas(HASH_WIDTH, HASH_HEIGHT)
+  const ctx = canvas.getContext('2d') as CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D | null
+  if (!ctx) {
+    throw new Error('Could not create canvas context for image hashing')
+  }
+  ctx.imageSmoothingEnabled = true
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(source, 0, 0, HASH_WIDTH, HASH_HEIGHT)
+  const { data } = ctx.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT)
+
+  const luminance = (x: number, y: number) => {
+    const index = (y * HASH_WIDTH + x) * 4
+    return data[index] * 0.299 + data[index + 1] * 0.587 + data[index + 2] * 0.114
+  }
+
+  let hash = ''
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    // Each row gives 8 bits, written as two hex digits
+    let row = 0
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      row = (row << 1) | (luminance(x, y) > luminance(x + 1, y) ? 1 : 0)
+    }
+    hash += row.toString(16).padStart(2, '0')
+  }
+  return hash
+}
+
+/**
+ * Number of differing bits between two hashes
+ */
+export const getHashDistance = (a: string, b: string): number => {
+  if (a.length !== b.length) return Infinity
+  let distance = 0
+  for (let i = 0; i < a.length; i++) {
+    let bits = parseInt(a[i], 16) ^ parseInt(b[i], 16)
+    while (bits) {
+      distance += bits & 1
+      bits >>= 1
+    }
+  }
+  return distance
+}
+
+/**
+ * Images that look like the given hash, closest first
+ */
+export const findSimilarImages = (
+  hash: string,
+  images: GameImage[],
+  maxDistance: number = DUPLICATE_HASH_DISTANCE
+): SimilarImage[] => {
+  return images
+    .filter(image => image.perceptualHash)
+    .map(image => ({ image, distance: getHashDistance(hash, image.perceptualHash!) }))
+    .filter(match => match.distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance)
+}
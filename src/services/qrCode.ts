@@ -0,0 +1,333 @@
+// Minimal QR code encoder for Name That Thing buzzer invites
+//
+// Encodes text as a byte-mode QR code with low error correction (the code is shown on a screen,
+// not printed), picking the smallest version from 1 to 40 that fits. The mask is chosen with the
+// run, block and balance penalty rules; the finder-lookalike rule is skipped, which only affects how
+// easily a code scans, never whether it decodes. Follows ISO/IEC 18004.
+
+export interface QrCode {
+  size: number // Modules per side, without the quiet zone
+  modules: boolean[][] // [y][x], true for dark
+}
+
+// Error correction level L, indexed by version (index 0 unused)
+const ECC_CODEWORDS_PER_BLOCK = [
+  -1, 7, 10, 15, 20, 26, 18, 20, 24, 30, 18, 20, 24, 26, 30, 22, 24, 28, 30, 28,
+  28, 28, 28, 30, 30, 26, 28, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30, 30
+]
+const ERROR_CORRECTION_BLOCKS = [
+  -1, 1, 1, 1, 1, 1, 2, 2, 2, 2, 4, 4, 4, 4, 4, 6, 6, 6, 6, 7,
+  8, 8, 9, 9, 10, 12, 12, 12, 13, 14, 15, 16, 17, 18, 19, 19, 20, 21, 22, 24, 25
+]
+const ECC_FORMAT_BITS = 1 // Level L
+const MIN_VERSION = 1
+const MAX_VERSION = 40
+
+const getBit = (value: number, index: number) => ((value >>> index) & 1) !== 0
+
+// Data and error correction modules left once the function patterns are placed
+const getRawDataModules = (version: number): number => {
+  let result = (16 * version + 128) * version + 64
+  if (version >= 2) {
+    const alignmentCount = Math.floor(version / 7) + 2
+    result -= (25 * alignmentCount - 10) * alignmentCount - 55
+    if (version >= 7) result -= 36
+  }
+  return result
+}
+
+const getDataCodewords = (version: number): number => {
+  return Math.floor(getRawDataModules(version) / 8) -
+    ECC_CODEWORDS_PER_BLOCK[version] * ERROR_CORRECTION_BLOCKS[version]
+}
+
+const getAlignmentPositions = (version: number): number[] => {
+  if (version === 1) return []
+  const count = Math.floor(version / 7) + 2
+  const step = version === 32 ? 26 : Math.ceil((version * 4 + 4) / (count * 2 - 2)) * 2
+  const positions = [6]
+  for (let position = version * 4 + 10; positions.length < count; position -= step) {
+    positions.splice(1, 0, position)
+  }
+  return positions
+}
+
+// Reed-Solomon over GF(2^8) with the QR polynomial 0x11D
+const multiply = (x: number, y: number): number => {
+  let z = 0
+  for (let i = 7; i >= 0; i--) {
+    z = (z << 1) ^ ((z >>> 7) * 0x11d)
+    z ^= ((y >>> i) & 1) * x
+  }
+  return z
+}
+
+const getDivisor = (degree: number): number[] => {
+  const result = new Array<number>(degree).fill(0)
+  result[degree - 1] = 1
+  let root = 1
+  for (let i = 0; i < degree; i++) {
+    for (let j = 0; j < result.length; j++) {
+      result[j] = multiply(result[j], root)
+      if (j + 1 < result.length) result[j] ^= result[j + 1]
+    }
+    root = multiply(root, 0x02)
+  }
+  return result
+}
+
+const getRemainder = (data: number[], divisor: number[]): number[] => {
+  const result = new Array<number>(divisor.length).fill(0)
+  for (const byte of data) {
+    const factor = byte ^ (result.shift() as number)
+    result.push(0)
+    divisor.forEach((coefficient, i) => {
+      result[i] ^= multiply(coefficient, factor)
+    })
+  }
+  return result
+}
+
+// Split the data into blocks, add each block's error correction and interleave them
+const addErrorCorrection = (data: number[], version: number): number[] => {
+  const blockCount = ERROR_CORRECTION_BLOCKS[version]
+  const eccLength = ECC_CODEWORDS_PER_BLOCK[version]
+  const rawCodewords = Math.floor(getRawDataModules(version) / 8)
+  const shortBlockCount = blockCount - (rawCodewords % blockCount)
+  const shortBlockLength = Math.floor(rawCodewords / blockCount)
+  const divisor = getDivisor(eccLength)
+
+  const blocks: number[][] = []
+  for (let i = 0, offset = 0; i < blockCount; i++) {
+    const block = data.slice(offset, offset + shortBlockLength - eccLength + (i < shortBlockCount ? 0 : 1))
+    offset += block.length
+    const ecc = getRemainder(block, divisor)
+    if (i < shortBlockCount) block.push(0)
+    blocks.push([...block, ...ecc])
+  }
+
+  const result: number[] = []
+  for (let i = 0; i < blocks[0].length; i++) {
+    blocks.forEach((block, j) => {
+      // Short blocks carry a placeholder where long blocks have their extra data byte
+      if (i !== shortBlockLength - eccLength || j >= shortBlockCount) {
+        result.push(block[i])
+      }
+    })
+  }
+  return result
+}
+
+const encodeData = (bytes: Uint8Array, version: number): number[] => {
+  const bits: number[] = []
+  const append = (value: number, length: number) => {
+    for (let i = length - 1; i >= 0; i--) bits.push((value >>> i) & 1)
+  }
+
+  append(0x4, 4) // Byte mode
+  append(bytes.length, version <= 9 ? 8 : 16)
+  bytes.forEach(byte => append(byte, 8))
+
+  const capacity = getDataCodewords(version) * 8
+  append(0, Math.min(4, capacity - bits.length))
+  append(0, (8 - (bits.length % 8)) % 8)
+  for (let pad = 0xec; bits.length < capacity; pad ^= 0xec ^ 0x11) {
+    append(pad, 8)
+  }
+
+  const codewords: number[] = []
+  for (let i = 0; i < bits.length; i += 8) {
+    codewords.push(bits.slice(i, i + 8).reduce((byte, bit) => (byte << 1) | bit, 0))
+  }
+  return codewords
+}
+
+const MASKS: Array<(x: number, y: number) => boolean> = [
+  (x, y) => (x + y) % 2 === 0,
+  (_x, y) => y % 2 === 0,
+  (x) => x % 3 === 0,
+  (x, y) => (x + y) % 3 === 0,
+  (x, y) => (Math.floor(x / 3) + Math.floor(y / 2)) % 2 === 0,
+  (x, y) => ((x * y) % 2) + ((x * y) % 3) === 0,
+  (x, y) => (((x * y) % 2) + ((x * y) % 3)) % 2 === 0,
+  (x, y) => (((x + y) % 2) + ((x * y) % 3)) % 2 === 0
+]
+
+const getPenalty = (modules: boolean[][]): number => {
+  const size = modules.length
+  let penalty = 0
+
+  // Runs of five or more modules of one colour, in rows and columns
+  for (let a = 0; a < size; a++) {
+    let rowRun = 1
+    let columnRun = 1
+    for (let b = 1; b <= size; b++) {
+      if (b < size && modules[a][b] === modules[a][b - 1]) {
+        rowRun++
+      } else {
+        if (rowRun >= 5) penalty += rowRun - 2
+        rowRun = 1
+      }
+      if (b < size && modules[b][a] === modules[b - 1][a]) {
+        columnRun++
+      } else {
+        if (columnRun >= 5) penalty += columnRun - 2
+        columnRun = 1
+      }
+    }
+  }
+
+  // 2x2 blocks of one colour
+  let dark = 0
+  for (let y = 0; y < size; y++) {
+    for (let x = 0; x < size; x++) {
+      if (modules[y][x]) dark++
+      if (x < size - 1 && y < size - 1) {
+        const colour = modules[y][x]
+        if (colour === modules[y][x + 1] && colour === modules[y + 1][x] && colour === modules[y + 1][x + 1]) {
+          penalty += 3
+        }
+      }
+    }
+  }
+
+  // Balance of dark and light modules
+  const total = size * size
+  penalty += (Math.ceil(Math.abs(dark * 20 - total * 10) / total) - 1) * 10
+  return penalty
+}
+
+/**
+ * Encode text as a QR code, or throw if it is too long for any version
+ */
+export const createQrCode = (text: string): QrCode => {
+  const bytes = new TextEncoder().encode(text)
+
+  let version = MIN_VERSION
+  while (4 + (version <= 9 ? 8 : 16) + bytes.length * 8 > getDataCodewords(version) * 8) {
+    if (++version > MAX_VERSION) {
+      throw new Error('Text is too long for a QR code')
+    }
+  }
+
+  const size = version * 4 + 17
+  const modules = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+  const isFunction = Array.from({ length: size }, () => new Array<boolean>(size).fill(false))
+
+  const setFunction = (x: number, y: number, isDark: boolean) => {
+    modules[y][x] = isDark
+    isFunction[y][x] = true
+  }
+
+  const drawFormatBits = (mask: number) => {
+    const data = (ECC_FORMAT_BITS << 3) | mask
+    let remainder = data
+    for (let i = 0; i < 10; i++) remainder = (remainder << 1) ^ ((remainder >>> 9) * 0x537)
+    const bits = ((data << 10) | remainder) ^ 0x5412
+
+    for (let i = 0; i <= 5; i++) setFunction(8, i, getBit(bits, i))
+    setFunction(8, 7, getBit(bits, 6))
+    setFunction(8, 8, getBit(bits, 7))
+    setFunction(7, 8, getBit(bits, 8))
+    for (let i = 9; i < 15; i++) setFunction(14 - i, 8, getBit(bits, i))
+
+    for (let i = 0; i < 8; i++) setFunction(size - 1 - i, 8, getBit(bits, i))
+    for (let i = 8; i < 15; i++) setFunction(8, size - 15 + i, getBit(bits, i))
+    setFunction(8, size - 8, true)
+  }
+
+  // Timing patterns
+  for (let i = 0; i < size; i++) {
+    setFunction(6, i, i % 2 === 0)
+    setFunction(i, 6, i % 2 === 0)
+  }
+
+  // Finder patterns with their separators
+  for (const [centerX, centerY] of [[3, 3], [size - 4, 3], [3, size - 4]]) {
+    for (let dy = -4; dy <= 4; dy++) {
+      for (let dx = -4; dx <= 4; dx++) {
+        const x = centerX + dx
+        const y = centerY + dy
+        if (x >= 0 && x < size && y >= 0 && y < size) {
+          const distance = Math.max(Math.abs(dx), Math.abs(dy))
+          setFunction(x, y, distance !== 2 && distance !== 4)
+        }
+      }
+    }
+  }
+
+  // Alignment patterns, except where they would overlap a finder
+  const alignment = getAlignmentPositions(version)
+  alignment.forEach((centerX, i) => {
+    alignment.forEach((centerY, j) => {
+      const isCorner = (i === 0 && j === 0) || (i === 0 && j === alignment.length - 1) || (i === alignment.length - 1 && j === 0)
+      if (isCorner) return
+      for (let dy = -2; dy <= 2; dy++) {
+        for (let dx = -2; dx <= 2; dx++) {
+          setFunction(centerX + dx, centerY + dy, Math.max(Math.abs(dx), Math.abs(dy)) !== 1)
+        }
+      }
+    })
+  })
+
+  // Reserve the format areas before placing data
+  drawFormatBits(0)
+
+  if (version >= 7) {
+    let remainder = version
+    for (let i = 0; i < 12; i++) remainder = (remainder << 1) ^ ((remainder >>> 11) * 0x1f25)
+    const bits = (version << 12) | remainder
+    for (let i = 0; i < 18; i++) {
+      const a = size - 11 + (i % 3)
+      const b = Math.floor(i / 3)
+      setFunction(a, b, getBit(bits, i))
+      setFunction(b, a, getBit(bits, i))
+    }
+  }
+
+  // Data in two-module columns, zigzagging up and down from the bottom right
+  const codewords = addErrorCorrection(encodeData(bytes, version), version)
+  let bitIndex = 0
+  for (let right = size - 1; right >= 1; right -= 2) {
+    if (right === 6) right = 5
+    for (let vertical = 0; vertical < size; vertical++) {
+      for (let j = 0; j < 2; j++) {
+        const x = right - j
+        const upward = ((right + 1) & 2) === 0
+        const y = upward ? size - 1 - vertical : vertical
+        if (!isFunction[y][x] && bitIndex < codewords.length * 8) {
+          modules[y][x] = getBit(codewords[bitIndex >>> 3], 7 - (bitIndex & 7))
+          bitIndex++
+        }
+      }
+    }
+  }
+
+  const applyMask = (mask: number) => {
+    for (let y = 0; y < size; y++) {
+      for (let x = 0; x < size; x++) {
+        if (!isFunction[y][x] && MASKS[mask](x, y)) {
+          modules[y][x] = !modules[y][x]
+        }
+      }
+    }
+  }
+
+  // Masking twice undoes it, so each mask can be tried in place
+  let bestMask = 0
+  let bestPenalty = Infinity
+  MASKS.forEach((_mask, mask) => {
+    applyMask(mask)
+    drawFormatBits(mask)
+    const penalty = getPenalty(modules)
+    if (penalty < bestPenalty) {
+      bestMask = mask
+      bestPenalty = penalty
+    }
+    applyMask(mask)
+  })
+  applyMask(bestMask)
+  drawFormatBits(bestMask)
+
+  return { size, modules }
+}
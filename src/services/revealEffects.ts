@@ -0,0 +1,401 @@
+// Reveal effect registry for Name That Thing
+// Each effect turns the clear image into one obscured reveal stage.
+// Effects only use the 2D canvas API, so they run on the page and in the processing worker alike.
+
+import { pixelateImageData, createSeededRandom } from '@/utils'
+
+// An on-page canvas, or an OffscreenCanvas inside a worker
+export type RevealCanvas = HTMLCanvasElement | OffscreenCanvas
+type RevealContext2D = CanvasRenderingContext2D | OffscreenCanvasRenderingContext2D
+
+export interface RevealStageContext {
+  stageIndex: number            // 0 = most obscured
+  stageCount: number            // Number of obscured stages (the original is not included)
+  strength: number              // Category reveal stage value (block size for pixelate, radius for blur)
+  progress: number              // 0 for the most obscured stage, approaching 1 near the original
+  focus: { x: number; y: number } // Point of interest, relative (0-1) to the image size
+  seed: number                  // Per-image seed so random layouts stay consistent across stages
+}
+
+export interface RevealEffect {
+  id: string
+  name: string
+  description: string
+  /**
+   * Draw the obscured stage into target, which has the same size as source
+   */
+  apply: (source: RevealCanvas, target: RevealCanvas, context: RevealStageContext) => void
+}
+
+export interface RevealOptions {
+  effect?: string
+  focus?: { x: number; y: number }
+  seed?: number
+}
+
+export const DEFAULT_REVEAL_EFFECT = 'pixelate'
+
+const registry = new Map<string, RevealEffect>()
+
+/**
+ * Register a reveal effect, replacing any existing effect with the same id
+ */
+export const registerRevealEffect = (effect: RevealEffect): void => {
+  registry.set(effect.id, effect)
+}
+
+/**
+ * Look up an effect by id, falling back to pixelation for unknown ids
+ */
+export const getRevealEffect = (id?: string): RevealEffect => {
+  return registry.get(id || DEFAULT_REVEAL_EFFECT) || registry.get(DEFAULT_REVEAL_EFFECT)!
+}
+
+/**
+ * All registered effects, in registration order
+ */
+export const listRevealEffects = (): RevealEffect[] => {
+  return Array.from(registry.values())
+}
+
+/**
+ * Create a canvas that works wherever this code runs (workers have no document)
+ */
+export const createRevealCanvas = (width: number, height: number): RevealCanvas => {
+  if (typeof document === 'undefined') {
+    return new OffscreenCanvas(width, height)
+  }
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  return canvas
+}
+
+/**
+ * Encode a canvas as JPEG, resolving null if the browser could not
+ */
+export const encodeCanvas = (canvas: RevealCanvas, quality: number = 0.9): Promise<Blob | null> => {
+  if ('convertToBlob' in canvas) {
+    return canvas.convertToBlob({ type: 'image/jpeg', quality }).catch(() => null)
+  }
+  return new Promise(resolve => canvas.toBlob(resolve, 'image/jpeg', quality))
+}
+
+/**
+ * Resolve the effect and per-stage context for a list of stage strengths.
+ * Stages with strength 0 are the clear original and get null.
+ */
+export const describeRevealStages = (
+  pixelSizes: number[],
+  reveal: RevealOptions = {}
+): { effect: string; stages: Array<RevealStageContext | null> } => {
+  // Resolve focus and seed once so every stage of this image shares them
+  const defaults = createRevealOptions(reveal.effect)
+  const focus = reveal.focus || defaults.focus
+  const seed = reveal.seed ?? defaults.seed
+  const obscuredCount = pixelSizes.filter(size => size !== 0).length
+
+  const stages = pixelSizes.map((size, index) => size === 0 ? null : {
+    stageIndex: index,
+    stageCount: obscuredCount,
+    strength: size,
+    progress: obscuredCount > 0 ? index / obscuredCount : 1,
+    focus,
+    seed
+  })
+  return { effect: defaults.effect, stages }
+}
+
+/**
+ * Render one obscured stage with the given effect and encode it as JPEG
+ */
+export const renderRevealStage = (
+  source: RevealCanvas,
+  effectId: string | undefined,
+  context: RevealStageContext,
+  quality: number = 0.9
+): Promise<Blob> => {
+  const effect = getRevealEffect(effectId)
+
+  return new Promise((resolve, reject) => {
+    const timeoutId = setTimeout(() => {
+      reject(new Error(`Timeout creating ${effect.id} stage ${context.stageIndex + 1}`))
+    }, 15000) // 15 second timeout
+
+    const target = createRevealCanvas(source.width, source.height)
+
+    try {
+      effect.apply(source, target, context)
+    } catch (error) {
+      clearTimeout(timeoutId)
+      reject(new Error(`Failed to apply ${effect.id} effect: ${error instanceof Error ? error.message : 'Unknown error'}`))
+      return
+    }
+
+    encodeCanvas(target, quality).then((blob) => {
+      clearTimeout(timeoutId)
+      // Release the canvas backing store as soon as the blob exists
+      target.width = 1
+      target.height = 1
+      if (blob && blob.size > 0) {
+        resolve(blob)
+      } else {
+        reject(new Error(`Failed to create ${effect.id} blob for stage ${context.stageIndex + 1}, size: ${blob?.size || 0}`))
+      }
+    })
+  })
+}
+
+// Helpers
+
+const get2dContext = (canvas: RevealCanvas): RevealContext2D => {
+  // Both canvas types share the 2D API; the cast only picks one getContext overload
+  const ctx = (canvas as OffscreenCanvas).getContext('2d')
+  if (!ctx) {
+    throw new Error('Could not get canvas context')
+  }
+  return ctx
+}
+
+const getSourcePixels = (source: RevealCanvas): ImageData => {
+  return get2dContext(source).getImageData(0, 0, source.width, source.height)
+}
+
+/**
+ * One horizontal and one vertical box blur pass over an RGBA buffer
+ */
+const boxBlur = (data: Uint8ClampedArray, width: number, height: number, radius: number) => {
+  const buffer = new Uint8ClampedArray(data.length)
+  const windowSize = radius * 2 + 1
+
+  // Horizontal pass: data -> buffer
+  for (let y = 0; y < height; y++) {
+    const rowStart = y * width
+    for (let channel = 0; channel < 4; channel++) {
+      let sum = 0
+      for (let i = -radius; i <= radius; i++) {
+        const x = Math.min(width - 1, Math.max(0, i))
+        sum += data[(rowStart + x) * 4 + channel]
+      }
+      for (let x = 0; x < width; x++) {
+        buffer[(rowStart + x) * 4 + channel] = sum / windowSize
+        const removeX = Math.max(0, x - radius)
+        const addX = Math.min(width - 1, x + radius + 1)
+        sum += data[(rowStart + addX) * 4 + channel] - data[(rowStart + removeX) * 4 + channel]
+      }
+    }
+  }
+
+  // Vertical pass: buffer -> data
+  for (let x = 0; x < width; x++) {
+    for (let channel = 0; channel < 4; channel++) {
+      let sum = 0
+      for (let i = -radius; i <= radius; i++) {
+        const y = Math.min(height - 1, Math.max(0, i))
+        sum += buffer[(y * width + x) * 4 + channel]
+      }
+      for (let y = 0; y < height; y++) {
+        data[(y * width + x) * 4 + channel] = sum / windowSize
+        const removeY = Math.max(0, y - radius)
+        const addY = Math.min(height - 1, y + radius + 1)
+        sum += buffer[(addY * width + x) * 4 + channel] - buffer[(removeY * width + x) * 4 + channel]
+      }
+    }
+  }
+}
+
+// Built-in effects
+
+registerRevealEffect({
+  id: 'pixelate',
+  name: 'Pixelate',
+  description: 'Block mosaic that gets finer at each stage',
+  apply: (source, target, { strength }) => {
+    const ctx = get2dContext(target)
+    const imageData = getSourcePixels(source)
+    pixelateImageData(imageData, Math.max(1, Math.round(strength)))
+    ctx.putImageData(imageData, 0, 0)
+  }
+})
+
+registerRevealEffect({
+  id: 'blur',
+  name: 'Blur',
+  description: 'Gaussian blur that sharpens at each stage',
+  apply: (source, target, { strength }) => {
+    const ctx = get2dContext(target)
+    const imageData = getSourcePixels(source)
+    // Three box blur passes closely approximate a Gaussian blur
+    const radius = Math.max(1, Math.round(strength / 4))
+    for (let pass = 0; pass < 3; pass++) {
+      boxBlur(imageData.data, imageData.width, imageData.height, radius)
+    }
+    ctx.putImageData(imageData, 0, 0)
+  }
+})
+
+registerRevealEffect({
+  id: 'zoom',
+  name: 'Zoom Out',
+  description: 'Starts on a small close-up region and widens at each stage',
+  apply: (source, target, { progress, focus }) => {
+    const ctx = get2dContext(target)
+    const { width, height } = source
+
+    // Visible fraction of the image grows from 15% towards the full frame
+    const fraction = 0.15 + 0.75 * progress
+    const cropWidth = width * fraction
+    const cropHeight = height * fraction
+    const cropX = Math.min(Math.max(focus.x * width - cropWidth / 2, 0), width - cropWidth)
+    const cropY = Math.min(Math.max(focus.y * height - cropHeight / 2, 0), height - cropHeight)
+
+    ctx.imageSmoothingEnabled = true
+    ctx.imageSmoothingQuality = 'high'
+    ctx.drawImage(source, cropX, cropY, cropWidth, cropHeight, 0, 0, width, height)
+  }
+})
+
+registerRevealEffect({
+  id: 'jigsaw',
+  name: 'Jigsaw Tiles',
+  description: 'Image hidden behind tiles that are uncovered one at a time',
+  apply: (source, target, { stageIndex, stageCount, seed }) => {
+    const ctx = get2dContext(target)
+    const { width, height } = source
+
+    // Smallest square grid with more tiles than obscured stages, so the last stage still hides one
+    const gridSize = Math.max(2, Math.ceil(Math.sqrt(stageCount + 1)))
+    const tileWidth = width / gridSize
+    const tileHeight = height / gridSize
+
+    // Same seed for every stage keeps earlier tiles uncovered as more are revealed
+    const random = createSeededRandom(seed)
+    const order = Array.from({ length: gridSize * gridSize }, (_, i) => i)
+    for (let i = order.length - 1; i > 0; i--) {
+      const j = Math.floor(random() * (i + 1))
+      ;[order[i], order[j]] = [order[j], order[i]]
+    }
+
+    ctx.fillStyle = '#1f2937'
+    ctx.fillRect(0, 0, width, height)
+
+    const revealedCount = Math.min(stageIndex + 1, order.length - 1)
+    for (let i = 0; i < revealedCount; i++) {
+      const tile = order[i]
+      const sx = (tile % gridSize) * tileWidth
+      const sy = Math.floor(tile / gridSize) * tileHeight
+      ctx.drawImage(source, sx, sy, tileWidth, tileHeight, sx, sy, tileWidth, tileHeight)
+    }
+
+    // Tile outlines
+    ctx.strokeStyle = 'rgba(255, 255, 255, 0.35)'
+    ctx.lineWidth = 2
+    for (let i = 1; i < gridSize; i++) {
+      ctx.beginPath()
+      ctx.moveTo(i * tileWidth, 0)
+      ctx.lineTo(i * tileWidth, height)
+      ctx.moveTo(0, i * tileHeight)
+      ctx.lineTo(width, i * tileHeight)
+      ctx.stroke()
+    }
+  }
+})
+
+registerRevealEffect({
+  id: 'swirl',
+  name: 'Swirl',
+  description: 'Twisted whirlpool distortion that unwinds at each stage',
+  apply: (source, target, { progress, focus }) => {
+    const ctx = get2dContext(target)
+    const sourcePixels = getSourcePixels(source)
+    const { width, height } = sourcePixels
+    const output = ctx.createImageData(width, height)
+    const src = sourcePixels.data
+    const dst = output.data
+
+    const centerX = focus.x * width
+    const centerY = focus.y * height
+    const radius = Math.max(width, height) * 0.75
+    const maxAngle = 8 * (1 - progress)
+
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const dx = x - centerX
+        const dy = y - centerY
+        const distance = Math.sqrt(dx * dx + dy * dy)
+        let sx = x
+        let sy = y
+
+        if (distance < radius) {
+          // Rotation falls off towards the edge of the swirl
+          const falloff = 1 - distance / radius
+          const angle = maxAngle * falloff * falloff
+          const cos = Math.cos(angle)
+          const sin = Math.sin(angle)
+          sx = Math.round(centerX + dx * cos - dy * sin)
+          sy = Math.round(centerY + dx * sin + dy * cos)
+          sx = Math.min(width - 1, Math.max(0, sx))
+          sy = Math.min(height - 1, Math.max(0, sy))
+        }
+
+        const srcIdx = (sy * width + sx) * 4
+        const dstIdx = (y * width + x) * 4
+        dst[dstIdx] = src[srcIdx]
+        dst[dstIdx + 1] = src[srcIdx + 1]
+        dst[dstIdx + 2] = src[srcIdx + 2]
+        dst[dstIdx + 3] = src[srcIdx + 3]
+      }
+    }
+
+    ctx.putImageData(output, 0, 0)
+  }
+})
+
+registerRevealEffect({
+  id: 'silhouette',
+  name: 'Silhouette',
+  description: 'Black-and-white outline that gains tones and color at each stage',
+  apply: (source, target, { stageIndex, progress }) => {
+    const ctx = get2dContext(target)
+    const imageData = getSourcePixels(source)
+    const data = imageData.data
+
+    // Threshold at the average brightness so the subject separates from the background
+    let totalLuminance = 0
+    for (let i = 0; i < data.length; i += 4) {
+      totalLuminance += 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+    }
+    const threshold = totalLuminance / (data.length / 4)
+    const toneCount = 2 + stageIndex * 2
+
+    for (let i = 0; i < data.length; i += 4) {
+      const luminance = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2]
+      let tone: number
+      if (toneCount === 2) {
+        tone = luminance < threshold ? 0 : 255
+      } else {
+        const step = 255 / (toneCount - 1)
+        tone = Math.round(luminance / step) * step
+      }
+      // Blend a little more of the original color back in at each stage
+      const colorMix = progress * 0.6
+      data[i] = tone + (data[i] - tone) * colorMix
+      data[i + 1] = tone + (data[i + 1] - tone) * colorMix
+      data[i + 2] = tone + (data[i + 2] - tone) * colorMix
+    }
+
+    ctx.putImageData(imageData, 0, 0)
+  }
+})
+
+/**
+ * Random reveal options for a new image (zoom region and tile order)
+ */
+export const createRevealOptions = (effect?: string): Required<RevealOptions> => {
+  return {
+    effect: effect || DEFAULT_REVEAL_EFFECT,
+    // Keep the random point away from the edges where there is rarely anything to see
+    focus: { x: 0.25 + Math.random() * 0.5, y: 0.25 + Math.random() * 0.5 },
+    seed: Math.floor(Math.random() * 0xffffffff)
+  }
+}
@@ -0,0 +1,129 @@
+// Spaced repetition for solo practice in Name That Thing
+//
+// Each image keeps an SM-2 schedule. A review is graded 0-5 from whether the image was named and how
+// much of it had to be revealed first: named at the first stage is a perfect 5, named only once
+// fully revealed is a 3, and not named at all is a 1. Grades of 3 and up push the next review
+// further out (1 day, 6 days, then the last interval times the ease factor); lower grades start the
+// image over at 1 day. Images graded below 4 come back again later in the same session.
+
+import type { GameImage, PracticeSchedule } from '@/types'
+
+export interface PracticeSelection {
+  images: GameImage[] // Due images, most overdue first, then new ones in their stored order
+  due: number
+  new: number // Images never practised before
+}
+
+export interface PracticeCounts {
+  due: number
+  new: number
+  nextDueAt: Date | null // When the next scheduled image falls due, if none are due now
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const INITIAL_EASE_FACTOR = 2.5
+export const MIN_EASE_FACTOR = 1.3
+export const PASSING_QUALITY = 3 // Lowest grade that counts as remembered
+export const REPEAT_BELOW_QUALITY = 4 // Grades under this are practised again in the same session
+
+const FORGOTTEN_QUALITY = 1
+
+/**
+ * SM-2 grade for a review: whether the image was named, and at which of its reveal steps
+ */
+export const getReviewQuality = (guessed: boolean, revealStep: number, revealStepCount: number): number => {
+  if (!guessed) return FORGOTTEN_QUALITY
+  const revealed = revealStepCount > 1 ? (revealStep - 1) / (revealStepCount - 1) : 0
+  if (revealed <= 1 / 3) return 5
+  if (revealed <= 2 / 3) return 4
+  return 3
+}
+
+/**
+ * The image's schedule after a review of the given quality (SM-2)
+ */
+export const reviewSchedule = (
+  imageId: string,
+  previous: PracticeSchedule | null,
+  quality: number,
+  now = new Date()
+): PracticeSchedule => {
+  const grade = Math.max(0, Math.min(5, Math.round(quality)))
+  const easeFactor = previous?.easeFactor ?? INITIAL_EASE_FACTOR
+  const repetitions = previous?.repetitions ?? 0
+
+  let nextRepetitions = 0
+  let intervalDays = 1
+  if (grade >= PASSING_QUALITY) {
+    nextRepetitions = repetitions + 1
+    if (repetitions === 0) intervalDays = 1
+    else if (repetitions === 1) intervalDays = 6
+    else intervalDays = Math.round((previous?.intervalDays ?? 1) * easeFactor)
+  }
+
+  const nextEaseFactor = easeFactor + (0.1 - (5 - grade) * (0.08 + (5 - grade) * 0.02))
+
+  return {
+    imageId,
+    repetitions: nextRepetitions,
+    easeFactor: Math.max(MIN_EASE_FACTOR, Math.round(nextEaseFactor * 100) / 100),
+    intervalDays,
+    dueAt: new Date(now.getTime() + intervalDays * DAY_MS),
+    lastReviewedAt: now,
+    lastQuality: grade
+  }
+}
+
+export const isDue = (schedule: PracticeSchedule, now = new Date()) => {
+  return schedule.dueAt.getTime() <= now.getTime()
+}
+
+/**
+ * How many of the images are due or new, and when the next one falls due otherwise
+ */
+export const countPractice = (
+  images: GameImage[],
+  schedules: Map<string, PracticeSchedule>,
+  now = new Date()
+): PracticeCounts => {
+  let due = 0
+  let fresh = 0
+  let nextDueAt: Date | null = null
+
+  for (const image of images) {
+    const schedule = schedules.get(image.id)
+    if (!schedule) {
+      fresh++
+    } else if (isDue(schedule, now)) {
+      due++
+    } else if (!nextDueAt || schedule.dueAt < nextDueAt) {
+      nextDueAt = schedule.dueAt
+    }
+  }
+
+  return { due, new: fresh, nextDueAt: due > 0 ? null : nextDueAt }
+}
+
+/**
+ * Images for a practice session: the due ones first, most overdue first, then up to newLimit new ones
+ */
+export const selectPracticeImages = (
+  images: GameImage[],
+  schedules: Map<string, PracticeSchedule>,
+  limit: number,
+  newLimit: number,
+  now = new Date()
+): PracticeSelection => {
+  const dueAt = (image: GameImage) => schedules.get(image.id)?.dueAt.getTime() ?? Infinity
+  const due = images
+    .filter(image => dueAt(image) <= now.getTime())
+    .sort((a, b) => dueAt(a) - dueAt(b))
+    .slice(0, limit)
+
+  const fresh = images
+    .filter(image => !schedules.has(image.id))
+    .slice(0, Math.max(0, Math.min(newLimit, limit - due.length)))
+
+  return { images: [...due, ...fresh], due: due.length, new: fresh.length }
+}
@@ -0,0 +1,150 @@
+// Reveal stage cache for Name That Thing
+//
+// Only each image's original is stored. Its obscured stages are rendered the first time a game
+// needs them and kept here, least recently used first out once the cache grows past its limit.
+// Entries are keyed by everything that affects the rendering (stage strengths, effect, quality,
+// focus and seed), so a settings change simply misses the cache and takes effect right away.
+
+import type { GameImage } from '@/types'
+import { ImageProcessingService } from './imageProcessing'
+
+export interface StageOptions {
+  pixelSizes: number[] // Strength per stage including the final original (0)
+  effect?: string
+  quality?: number
+}
+
+interface CacheEntry {
+  imageId: string
+  levels: Blob[]
+  bytes: number
+}
+
+export const DEFAULT_STAGE_CACHE_MB = 128
+
+class RevealStageCache {
+  private entries = new Map<string, CacheEntry>() // Map order doubles as recency, oldest first
+  private pending = new Map<string, Promise<Blob[]>>()
+  private totalBytes = 0
+  private limitBytes = DEFAULT_STAGE_CACHE_MB * 1024 * 1024
+
+  get size(): { entries: number; bytes: number; limitBytes: number } {
+    return { entries: this.entries.size, bytes: this.totalBytes, limitBytes: this.limitBytes }
+  }
+
+  setLimit(megabytes: number): void {
+    this.limitBytes = Math.max(0, megabytes) * 1024 * 1024
+    this.evict()
+  }
+
+  /**
+   * Every reveal stage of an image, most obscured first and the original last
+   */
+  async getStages(image: GameImage, options: StageOptions): Promise<Blob[]> {
+    const key = this.getKey(image, options)
+
+    const cached = this.entries.get(key)
+    if (cached) {
+      // Move to the most recently used end
+      this.entries.delete(key)
+      this.entries.set(key, cached)
+      return cached.levels
+    }
+
+    // Showing an image and prefetching it at the same time share one rendering
+    const inFlight = this.pending.get(key)
+    if (inFlight) return inFlight
+
+    const rendering = ImageProcessingService.renderRevealStages(image.original, {
+      quality: options.quality,
+      pixelSizes: options.pixelSizes,
+      reveal: { effect: options.effect, focus: image.reveal?.focus, seed: image.reveal?.seed }
+    })
+      .then((levels) => {
+        this.store(key, image, levels)
+        return levels
+      })
+      .finally(() => {
+        this.pending.delete(key)
+      })
+
+    this.pending.set(key, rendering)
+    return rendering
+  }
+
+  /**
+   * One reveal stage (1-based, like PixelationLevel). The final stage needs no rendering.
+   */
+  async getStage(image: GameImage, level: number, options: StageOptions): Promise<Blob> {
+    if (level >= options.pixelSizes.length) {
+      return image.original
+    }
+    const levels = await this.getStages(image, options)
+    const blob = levels[level - 1]
+    if (!blob) {
+      throw new Error(`Reveal stage ${level} is out of range`)
+    }
+    return blob
+  }
+
+  /**
+   * Render an image's stages in the background so they are ready when it comes up
+   */
+  prefetch(image: GameImage | null | undefined, options: StageOptions): void {
+    if (!image) return
+    this.getStages(image, options).catch((error) => {
+      console.warn(`StageCache: Failed to prefetch stages for ${image.originalName}:`, error)
+    })
+  }
+
+  /**
+   * Drop every cached rendering of an image, e.g. after its original changes or it is deleted
+   */
+  invalidate(imageId: string): void {
+    for (const [key, entry] of this.entries) {
+      if (entry.imageId === imageId) {
+        this.remove(key)
+      }
+    }
+  }
+
+  private getKey(image: GameImage, options: StageOptions): string {
+    const { focus, seed } = image.reveal ?? { focus: { x: 0.5, y: 0.5 }, seed: 0 }
+    return [
+      image.id,
+      image.metadata.processedAt instanceof Date ? image.metadata.processedAt.getTime() : image.metadata.processedAt,
+      options.pixelSizes.join(','),
+      options.effect ?? '',
+      options.quality ?? '',
+      `${focus.x},${focus.y}`,
+      seed
+    ].join('|')
+  }
+
+  private store(key: string, image: GameImage, levels: Blob[]): void {
+    // The original belongs to the image, so only the rendered stages count towards the limit
+    const bytes = levels.reduce((sum, blob) => blob === image.original ? sum : sum + blob.size, 0)
+    this.remove(key)
+    this.entries.set(key, { imageId: image.id, levels, bytes })
+    this.totalBytes += bytes
+    this.evict()
+  }
+
+  private remove(key: string): void {
+    const entry = this.entries.get(key)
+    if (entry) {
+      this.totalBytes -= entry.bytes
+      this.entries.delete(key)
+    }
+  }
+
+  private evict(): void {
+    for (const key of this.entries.keys()) {
+      if (this.totalBytes <= this.limitBytes) break
+      this.remove(key)
+    }
+  }
+}
+
+// Export singleton instance
+export const stageCache = new RevealStageCache()
@@ -0,0 +1,164 @@
+// Small pool of web workers for Name That Thing
+//
+// Jobs queue until a worker is free; at most `concurrency` workers run at once. Each job is
+// posted as { jobId, payload } and the worker answers with { jobId, result } or { jobId, error }.
+
+export interface WorkerJobMessage<TPayload> {
+  jobId: number
+  payload: TPayload
+}
+
+export type WorkerJobResponse<TResult> =
+  | { jobId: number; result: TResult }
+  | { jobId: number; error: string }
+
+/**
+ * The job was cancelled through its AbortSignal before it finished
+ */
+export class JobCancelledError extends Error {
+  constructor() {
+    super('Cancelled')
+    this.name = 'JobCancelledError'
+  }
+}
+
+interface Job<TPayload, TResult> {
+  id: number
+  payload: TPayload
+  resolve: (result: TResult) => void
+  reject: (error: Error) => void
+  detach?: () => void // Stops listening to the job's AbortSignal
+}
+
+export class WorkerPool<TPayload, TResult> {
+  private idle: Worker[] = []
+  private running = new Map<Worker, Job<TPayload, TResult>>()
+  private queue: Job<TPayload, TResult>[] = []
+  private nextJobId = 1
+  private concurrency: number
+
+  constructor(private readonly createWorker: () => Worker, concurrency: number) {
+    this.concurrency = Math.max(1, Math.floor(concurrency))
+  }
+
+  get limit(): number {
+    return this.concurrency
+  }
+
+  setConcurrency(concurrency: number): void {
+    this.concurrency = Math.max(1, Math.floor(concurrency))
+    // Extra idle workers are released now; busy ones are released as they finish
+    while (this.idle.length > 0 && this.idle.length + this.running.size > this.concurrency) {
+      this.idle.pop()!.terminate()
+    }
+    this.dispatch()
+  }
+
+  /**
+   * Queue a job. Aborting the signal removes a queued job, or stops the worker running it.
+   */
+  run(payload: TPayload, signal?: AbortSignal): Promise<TResult> {
+    if (signal?.aborted) {
+      return Promise.reject(new JobCancelledError())
+    }
+
+    return new Promise((resolve, reject) => {
+      const job: Job<TPayload, TResult> = { id: this.nextJobId++, payload, resolve, reject }
+      if (signal) {
+        const onAbort = () => this.cancel(job)
+        signal.addEventListener('abort', onAbort, { once: true })
+        job.detach = () => signal.removeEventListener('abort', onAbort)
+      }
+      this.queue.push(job)
+      this.dispatch()
+    })
+  }
+
+  /**
+   * Cancel every queued and running job and stop all workers
+   */
+  terminate(): void {
+    const jobs = [...this.queue, ...this.running.values()]
+    this.queue = []
+    this.running.forEach((_, worker) => worker.terminate())
+    this.running.clear()
+    this.idle.forEach(worker => worker.terminate())
+    this.idle = []
+    jobs.forEach(job => this.settle(job, () => job.reject(new JobCancelledError())))
+  }
+
+  private dispatch(): void {
+    while (this.queue.length > 0 && this.running.size < this.concurrency) {
+      const job = this.queue.shift()!
+      const worker = this.idle.pop() ?? this.spawn()
+      this.running.set(worker, job)
+      const message: WorkerJobMessage<TPayload> = { jobId: job.id, payload: job.payload }
+      worker.postMessage(message)
+    }
+  }
+
+  private spawn(): Worker {
+    const worker = this.createWorker()
+
+    worker.onmessage = (event: MessageEvent<WorkerJobResponse<TResult>>) => {
+      const job = this.running.get(worker)
+      if (!job || job.id !== event.data.jobId) return
+      this.release(worker)
+      const response = event.data
+      this.settle(job, () => {
+        if ('error' in response) {
+          job.reject(new Error(response.error))
+        } else {
+          job.resolve(response.result)
+        }
+      })
+    }
+
+    // The worker crashed or its script failed to load: fail its job and replace it
+    worker.onerror = (event) => {
+      event.preventDefault()
+      const job = this.running.get(worker)
+      this.running.delete(worker)
+      worker.terminate()
+      if (job) {
+        this.settle(job, () => job.reject(new Error(event.message || 'Worker failed')))
+      }
+      this.dispatch()
+    }
+
+    return worker
+  }
+
+  private release(worker: Worker): void {
+    this.running.delete(worker)
+    if (this.idle.length + this.running.size < this.concurrency) {
+      this.idle.push(worker)
+    } else {
+      worker.terminate()
+    }
+    this.dispatch()
+  }
+
+  private cancel(job: Job<TPayload, TResult>): void {
+    const queuedIndex = this.queue.indexOf(job)
+    if (queuedIndex !== -1) {
+      this.queue.splice(queuedIndex, 1)
+    } else {
+      for (const [worker, runningJob] of this.running) {
+        if (runningJob === job) {
+          // A worker can't be interrupted mid-render, so it is replaced
+          worker.terminate()
+          this.running.delete(worker)
+          break
+        }
+      }
+    }
+    this.settle(job, () => job.reject(new JobCancelledError()))
+    this.dispatch()
+  }
+
+  private settle(job: Job<TPayload, TResult>, finish: () => void): void {
+    job.detach?.()
+    finish()
+  }
+}
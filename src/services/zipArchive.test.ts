@@ -0,0 +1,26 @@
+import { describe, it, expect } from 'vitest'
+import { ZipWriter, readZip } from './zipArchive'
+
+describe('zipArchive', () => {
+  it('reads back what it writes', async () => {
+    const writer = new ZipWriter()
+    await writer.addFile('manifest.json', '{"format":"test"}')
+    await writer.addFile('images/a/original.png', new Blob([new Uint8Array([1, 2, 3])]))
+
+    const entries = await readZip(writer.finish())
+    expect(Array.from(entries.keys())).toEqual(['manifest.json', 'images/a/original.png'])
+    expect(await entries.get('manifest.json')!.text()).toBe('{"format":"test"}')
+  })
+
+  it('writes and reads an archive of exactly 65535 entries without ZIP64', async () => {
+    const writer = new ZipWriter()
+    const empty = new Blob([])
+    for (let i = 0; i < 0xffff; i++) {
+      await writer.addFile(`${i}`, empty)
+    }
+    await expect(writer.addFile('one-too-many', empty)).rejects.toThrow('too large')
+
+    const entries = await readZip(writer.finish())
+    expect(entries.size).toBe(0xffff)
+  }, 60_000)
+})
@@ -0,0 +1,220 @@
+// Minimal ZIP reader and writer for Name That Thing packages
+//
+// Entries are written uncompressed ("stored"). Images are already JPEG-compressed, and storing
+// lets an archive be assembled from Blob references, so file bytes never all sit in memory at once.
+// Reading also accepts deflated entries (e.g. a package re-zipped by another tool) where the
+// browser provides DecompressionStream. ZIP64 archives (over 4 GB or 65535 entries) are not supported.
+
+const LOCAL_FILE_HEADER = 0x04034b50
+const CENTRAL_DIRECTORY_HEADER = 0x02014b50
+const END_OF_CENTRAL_DIRECTORY = 0x06054b50
+const ZIP64_END_LOCATOR = 0x07064b50
+const UTF8_FLAG = 0x0800
+const METHOD_STORED = 0
+const METHOD_DEFLATED = 8
+const MAX_UINT32 = 0xffffffff
+const MAX_ENTRIES = 0xffff // The most the end record's 16-bit count holds without ZIP64
+
+const textEncoder = new TextEncoder()
+const textDecoder = new TextDecoder()
+
+let crcTable: Uint32Array | null = null
+
+const getCrcTable = (): Uint32Array => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256)
+    for (let n = 0; n < 256; n++) {
+      let c = n
+      for (let k = 0; k < 8; k++) {
+        c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1
+      }
+      crcTable[n] = c >>> 0
+    }
+  }
+  return crcTable
+}
+
+const crc32 = (data: Uint8Array): number => {
+  const table = getCrcTable()
+  let crc = MAX_UINT32
+  for (let i = 0; i < data.length; i++) {
+    crc = table[(crc ^ data[i]) & 0xff] ^ (crc >>> 8)
+  }
+  return (crc ^ MAX_UINT32) >>> 0
+}
+
+// MS-DOS date and time fields used by ZIP headers
+const toDosDateTime = (date: Date): { time: number; date: number } => {
+  const year = Math.max(date.getFullYear(), 1980)
+  return {
+    time: (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+    date: ((year - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+  }
+}
+
+/**
+ * Builds a ZIP archive one entry at a time. Call finish() to get the archive Blob.
+ */
+export class ZipWriter {
+  private parts: BlobPart[] = []
+  private centralDirectory: Uint8Array[] = []
+  private offset = 0
+
+  get entryCount(): number {
+    return this.centralDirectory.length
+  }
+
+  async addFile(path: string, data: Blob | string, modified: Date = new Date()): Promise<void> {
+    const content = typeof data === 'string' ? new Blob([data], { type: 'text/plain' }) : data
+    // Reading one entry at a time keeps memory to a single file while the checksum is computed
+    const checksum = crc32(new Uint8Array(await content.arrayBuffer()))
+    const name = textEncoder.encode(path)
+    const { time, date } = toDosDateTime(modified)
+
+    if (this.entryCount + 1 > MAX_ENTRIES || this.offset + 30 + name.length + content.size > MAX_UINT32) {
+      throw new Error('Package is too large for the ZIP format used by Name That Thing')
+    }
+
+    const local = new DataView(new ArrayBuffer(30))
+    local.setUint32(0, LOCAL_FILE_HEADER, true)
+    local.setUint16(4, 20, true) // Version needed to extract
+    local.setUint16(6, UTF8_FLAG, true)
+    local.setUint16(8, METHOD_STORED, true)
+    local.setUint16(10, time, true)
+    local.setUint16(12, date, true)
+    local.setUint32(14, checksum, true)
+    local.setUint32(18, content.size, true) // Compressed size
+    local.setUint32(22, content.size, true) // Uncompressed size
+    local.setUint16(26, name.length, true)
+    local.setUint16(28, 0, true) // Extra field length
+
+    const central = new DataView(new ArrayBuffer(46))
+    central.setUint32(0, CENTRAL_DIRECTORY_HEADER, true)
+    central.setUint16(4, 20, true) // Version made by
+    central.setUint16(6, 20, true) // Version needed to extract
+    central.setUint16(8, UTF8_FLAG, true)
+    central.setUint16(10, METHOD_STORED, true)
+    central.setUint16(12, time, true)
+    central.setUint16(14, date, true)
+    central.setUint32(16, checksum, true)
+    central.setUint32(20, content.size, true)
+    central.setUint32(24, content.size, true)
+    central.setUint16(28, name.length, true)
+    // Extra, comment, disk number and attribute fields stay zero
+    central.setUint32(42, this.offset, true)
+
+    const centralEntry = new Uint8Array(46 + name.length)
+    centralEntry.set(new Uint8Array(central.buffer), 0)
+    centralEntry.set(name, 46)
+    this.centralDirectory.push(centralEntry)
+
+    this.parts.push(local.buffer, name, content)
+    this.offset += 30 + name.length + content.size
+  }
+
+  finish(mimeType: string = 'application/zip'): Blob {
+    const directorySize = this.centralDirectory.reduce((total, entry) => total + entry.length, 0)
+
+    const end = new DataView(new ArrayBuffer(22))
+    end.setUint32(0, END_OF_CENTRAL_DIRECTORY, true)
+    end.setUint16(8, this.entryCount, true) // Entries on this disk
+    end.setUint16(10, this.entryCount, true) // Total entries
+    end.setUint32(12, directorySize, true)
+    end.setUint32(16, this.offset, true)
+
+    return new Blob([...this.parts, ...this.centralDirectory, end.buffer], { type: mimeType })
+  }
+}
+
+export interface ZipEntry {
+  path: string
+  size: number
+  blob: (mimeType?: string) => Promise<Blob>
+  text: () => Promise<string>
+}
+
+const readBytes = async (file: Blob, start: number, end: number): Promise<DataView> => {
+  return new DataView(await file.slice(start, end).arrayBuffer())
+}
+
+/**
+ * Index the entries of a ZIP archive. Entry contents are only read when requested.
+ */
+export const readZip = async (file: Blob): Promise<Map<string, ZipEntry>> => {
+  // The end-of-central-directory record sits in the last 22 bytes plus an optional comment
+  const tailStart = Math.max(0, file.size - (22 + 0xffff))
+  const tail = await readBytes(file, tailStart, file.size)
+  let endOffset = -1
+  for (let i = tail.byteLength - 22; i >= 0; i--) {
+    if (tail.getUint32(i, true) === END_OF_CENTRAL_DIRECTORY) {
+      endOffset = i
+      break
+    }
+  }
+  if (endOffset === -1) {
+    throw new Error('Not a ZIP file')
+  }
+
+  const entryCount = tail.getUint16(endOffset + 10, true)
+  const directorySize = tail.getUint32(endOffset + 12, true)
+  const directoryOffset = tail.getUint32(endOffset + 16, true)
+  // A count of exactly 0xffff is a real count unless a ZIP64 locator precedes the end record
+  const hasZip64Locator = endOffset >= 20 && tail.getUint32(endOffset - 20, true) === ZIP64_END_LOCATOR
+  if (hasZip64Locator || directoryOffset === MAX_UINT32) {
+    throw new Error('ZIP64 archives are not supported')
+  }
+
+  const directory = await readBytes(file, directoryOffset, directoryOffset + directorySize)
+  const entries = new Map<string, ZipEntry>()
+  let position = 0
+
+  for (let i = 0; i < entryCount; i++) {
+    if (directory.getUint32(position, true) !== CENTRAL_DIRECTORY_HEADER) {
+      throw new Error('Corrupted ZIP central directory')
+    }
+
+    const method = directory.getUint16(position + 10, true)
+    const compressedSize = directory.getUint32(position + 20, true)
+    const size = directory.getUint32(position + 24, true)
+    const nameLength = directory.getUint16(position + 28, true)
+    const extraLength = directory.getUint16(position + 30, true)
+    const commentLength = directory.getUint16(position + 32, true)
+    const localOffset = directory.getUint32(position + 42, true)
+    const path = textDecoder.decode(
+      new Uint8Array(directory.buffer, directory.byteOffset + position + 46, nameLength)
+    )
+    position += 46 + nameLength + extraLength + commentLength
+
+    // Directory entries carry no data
+    if (path.endsWith('/')) continue
+
+    const blob = async (mimeType: string = ''): Promise<Blob> => {
+      // The local header repeats the name and may have its own extra field
+      const local = await readBytes(file, localOffset, localOffset + 30)
+      if (local.getUint32(0, true) !== LOCAL_FILE_HEADER) {
+        throw new Error(`Corrupted ZIP entry: ${path}`)
+      }
+      const dataStart = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true)
+      const data = file.slice(dataStart, dataStart + compressedSize, mimeType)
+
+      if (method === METHOD_STORED) {
+        return data
+      }
+      if (method === METHOD_DEFLATED && typeof DecompressionStream !== 'undefined') {
+        const inflated = data.stream().pipeThrough(new DecompressionStream('deflate-raw'))
+        const bytes = await new Response(inflated).arrayBuffer()
+        return new Blob([bytes], { type: mimeType })
+      }
+      throw new Error(`Unsupported compression for ${path}`)
+    }
+
+    entries.set(path, {
+      path,
+      size,
+      blob,
+      text: async () => (await blob()).text()
+    })
+  }
+
+  return entries
+}
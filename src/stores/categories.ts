@@ -1,8 +1,13 @@
 import { defineStore } from 'pinia'
 import { ref, computed } from 'vue'
-import type { Category, GameImage } from '@/types'
+import type { Category, GameImage, ImageEdits, ImageRevealSettings } from '@/types'
 import { db } from '@/services/database'
 import { ImageProcessingService } from '@/services/imageProcessing'
+import { stageCache, type StageOptions } from '@/services/stageCache'
+import { findSimilarImages, type SimilarImage } from '@/services/perceptualHash'
+import { normalizeTags } from '@/services/librarySearch'
+import { MigrationError } from '@/services/migrations'
+import { generateId } from '@/utils'
 
 export const useCategoriesStore = defineStore('categories', () => {
   // State
@@ -10,14 +15,23 @@ export const useCategoriesStore = defineStore('categories', () => {
   const images = ref<GameImage[]>([])
   const loading = ref(false)
   const error = ref<string | null>(null)
+  const migrationFailure = ref<MigrationError | null>(null) // Set when the database could not be upgraded
 
   // Getters
   const getCategoryById = computed(() => {
     return (id: string) => categories.value.find((cat: Category) => cat.id === id)
   })
 
+  // In the category's order; images it doesn't list go last
   const getImagesByCategory = computed(() => {
-    return (categoryId: string) => images.value.filter((img: GameImage) => img.categoryId === categoryId)
+    return (categoryId: string) => {
+      const order = categories.value.find((cat: Category) => cat.id === categoryId)?.imageIds ?? []
+      const positions = new Map(order.map((id, index) => [id, index]))
+      const position = (img: GameImage) => positions.get(img.id) ?? order.length
+      return images.value
+        .filter((img: GameImage) => img.categoryId === categoryId)
+        .sort((a, b) => position(a) - position(b))
+    }
   })
 
   const categoriesWithImageCount = computed(() => {
@@ -95,6 +109,7 @@ export const useCategoriesStore = defineStore('categories', () => {
       const categoryImages = images.value.filter((img: GameImage) => img.categoryId === id)
       for (const image of categoryImages) {
         await db.deleteImage(image.id)
+        stageCache.invalidate(image.id)
       }
       images.value = images.value.filter((img: GameImage) => img.categoryId !== id)
 
@@ -134,6 +149,11 @@ export const useCategoriesStore = defineStore('categories', () => {
             : categories.value[categoryIndex].createdAt,
           updatedAt: updatedAt.toISOString(),
           imageIds: updatedImageIds,
+          revealStages: categories.value[categoryIndex].revealStages
+            ? [...categories.value[categoryIndex].revealStages!]
+            : undefined,
+          revealEffect: categories.value[categoryIndex].revealEffect,
+          tags: categories.value[categoryIndex].tags ? [...categories.value[categoryIndex].tags!] : undefined,
           settings: categories.value[categoryIndex].settings ? {
             shuffleImages: categories.value[categoryIndex].settings.shuffleImages,
             showFileName: categories.value[categoryIndex].settings.showFileName
@@ -180,6 +200,7 @@ export const useCategoriesStore = defineStore('categories', () => {
 
       // Delete from IndexedDB
       await db.deleteImage(imageId)
+      stageCache.invalidate(imageId)
     } catch (err) {
       error.value = err instanceof Error ? err.message : 'Failed to remove image'
       throw err
@@ -188,6 +209,327 @@ export const useCategoriesStore = defineStore('categories', () => {
     }
   }
 
+  /**
+   * Update the presenter-only answer, alternate answers, hints and difficulty rating for an image.
+   * Blank entries are dropped so an empty form clears the field.
+   */
+  const updateImageDetails = async (
+    imageId: string,
+    details: Pick<GameImage, 'answer' | 'alternateAnswers' | 'hints' | 'tags' | 'difficulty'>
+  ) => {
+    try {
+      loading.value = true
+      error.value = null
+
+      const imageIndex = images.value.findIndex((img: GameImage) => img.id === imageId)
+      if (imageIndex === -1) {
+        throw new Error('Image not found')
+      }
+
+      const cleanList = (list?: string[]) => {
+        const cleaned = (list || []).map(item => item.trim()).filter(item => item.length > 0)
+        return cleaned.length > 0 ? cleaned : undefined
+      }
+
+      const updatedImage: GameImage = {
+        ...images.value[imageIndex],
+        answer: details.answer?.trim() || undefined,
+        alternateAnswers: cleanList(details.alternateAnswers),
+        hints: cleanList(details.hints),
+        tags: normalizeTags(details.tags),
+        difficulty: details.difficulty ? Math.min(Math.max(Math.round(details.difficulty), 1), 5) : undefined
+      }
+
+      await db.saveImage(updatedImage)
+      images.value[imageIndex] = updatedImage
+      return updatedImage
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to update image'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Re-apply crop, rotation and flips to the untouched upload and move the reveal's focal point.
+   * The image's reveal stages are rendered again from the result.
+   */
+  const editImage = async (
+    imageId: string,
+    edits: ImageEdits,
+    focus: ImageRevealSettings['focus'],
+    stageOptions?: StageOptions
+  ) => {
+    try {
+      loading.value = true
+      error.value = null
+
+      const imageIndex = images.value.findIndex((img: GameImage) => img.id === imageId)
+      if (imageIndex === -1) {
+        throw new Error('Image not found')
+      }
+      const image = images.value[imageIndex]
+
+      // Before the first edit the stored original is the untouched upload
+      const source = image.source ?? await db.getImageSource(imageId) ?? image.original
+      const { blob, dimensions } = await ImageProcessingService.applyImageEdits(source, edits, stageOptions?.quality)
+
+      const updatedImage: GameImage = {
+        ...image,
+        original: blob,
+        source,
+        edits,
+        dimensions,
+        processedSize: blob.size,
+        reveal: {
+          focus: { x: focus.x, y: focus.y },
+          seed: image.reveal?.seed ?? ImageProcessingService.createRevealSettings().seed
+        },
+        metadata: {
+          ...image.metadata,
+          processedAt: new Date()
+        }
+      }
+
+      await db.saveImage(updatedImage)
+      // The source stays in the database; keep it out of memory like other images
+      images.value[imageIndex] = { ...updatedImage, source: undefined }
+      stageCache.invalidate(imageId)
+      if (stageOptions) {
+        stageCache.prefetch(images.value[imageIndex], stageOptions)
+      }
+      return images.value[imageIndex]
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to edit image'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Library images that look like the given one, closest first
+   */
+  const findDuplicateImages = (image: GameImage): SimilarImage[] => {
+    if (!image.perceptualHash) return []
+    return findSimilarImages(image.perceptualHash, images.value.filter((img: GameImage) => img.id !== image.id))
+  }
+
+  /**
+   * Hash images saved before uploads were hashed, so they take part in duplicate checks
+   */
+  const ensurePerceptualHashes = async () => {
+    const unhashed = images.value.filter((img: GameImage) => !img.perceptualHash)
+    for (const image of unhashed) {
+      try {
+        // Edited images are hashed as uploaded, like new uploads are
+        const source = await db.getImageSource(image.id) ?? image.original
+        const updatedImage = { ...image, perceptualHash: await ImageProcessingService.getPerceptualHash(source) }
+        await db.saveImage(updatedImage)
+        const imageIndex = images.value.findIndex((img: GameImage) => img.id === image.id)
+        if (imageIndex !== -1) {
+          images.value[imageIndex] = updatedImage
+        }
+      } catch (err) {
+        console.warn(`Failed to hash image ${image.originalName}:`, err)
+      }
+    }
+  }
+
+  /**
+   * Swap an image's picture for a new upload. Its id, category, answer and hints are kept;
+   * earlier edits are dropped because they belonged to the old picture.
+   */
+  const replaceImage = async (imageId: string, replacement: GameImage) => {
+    try {
+      loading.value = true
+      error.value = null
+
+      const imageIndex = images.value.findIndex((img: GameImage) => img.id === imageId)
+      if (imageIndex === -1) {
+        throw new Error('Image not found')
+      }
+      const existing = images.value[imageIndex]
+
+      const updatedImage: GameImage = {
+        ...replacement,
+        id: existing.id,
+        categoryId: existing.categoryId,
+        answer: existing.answer,
+        alternateAnswers: existing.alternateAnswers,
+        hints: existing.hints,
+        tags: existing.tags,
+        difficulty: existing.difficulty,
+        source: undefined,
+        edits: undefined,
+        metadata: {
+          uploadedAt: existing.metadata.uploadedAt,
+          processedAt: new Date()
+        }
+      }
+
+      await db.saveImage(updatedImage)
+      await db.deleteImageSource(existing.id)
+      images.value[imageIndex] = updatedImage
+      stageCache.invalidate(existing.id)
+      return updatedImage
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to replace image'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  // Put saved category records into state
+  const applyCategoryUpdates = (updatedCategories: Category[]) => {
+    for (const category of updatedCategories) {
+      const categoryIndex = categories.value.findIndex((cat: Category) => cat.id === category.id)
+      if (categoryIndex !== -1) {
+        categories.value[categoryIndex] = category
+      }
+    }
+  }
+
+  /**
+   * Set the play order of a category's images
+   */
+  const reorderImages = async (categoryId: string, imageIds: string[]) => {
+    return updateCategory(categoryId, { imageIds })
+  }
+
+  /**
+   * Move images to another category, after its current images. Images are not reprocessed;
+   * the category lists and image records are saved in one transaction.
+   */
+  const moveImages = async (imageIds: string[], targetCategoryId: string) => {
+    try {
+      loading.value = true
+      error.value = null
+
+      if (!categories.value.some((cat: Category) => cat.id === targetCategoryId)) {
+        throw new Error('Category not found')
+      }
+
+      const movingIds = new Set(imageIds)
+      const moving = images.value.filter((img: GameImage) => movingIds.has(img.id) && img.categoryId !== targetCategoryId)
+      if (moving.length === 0) return []
+
+      const movedIds = new Set(moving.map(img => img.id))
+      const sourceCategoryIds = new Set(moving.map(img => img.categoryId))
+      const updatedAt = new Date()
+      const updatedCategories = categories.value
+        .filter((cat: Category) => cat.id === targetCategoryId || sourceCategoryIds.has(cat.id))
+        .map((cat: Category) => ({
+          ...cat,
+          imageIds: cat.id === targetCategoryId
+            ? [...cat.imageIds.filter(id => !movedIds.has(id)), ...moving.map(img => img.id)]
+            : cat.imageIds.filter(id => !movedIds.has(id)),
+          updatedAt
+        }))
+      const movedImages = moving.map(img => ({ ...img, categoryId: targetCategoryId }))
+
+      await db.saveLibraryChanges({ categories: updatedCategories, updatedImages: movedImages })
+
+      applyCategoryUpdates(updatedCategories)
+      images.value = images.value.map((img: GameImage) => movedImages.find(moved => moved.id === img.id) ?? img)
+      return movedImages
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to move images'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Copy images into a category as new images with the same picture, edits, answer and hints
+   */
+  const copyImages = async (imageIds: string[], targetCategoryId: string) => {
+    try {
+      loading.value = true
+      error.value = null
+
+      const target = categories.value.find((cat: Category) => cat.id === targetCategoryId)
+      if (!target) {
+        throw new Error('Category not found')
+      }
+
+      const originals = imageIds
+        .map(id => images.value.find((img: GameImage) => img.id === id))
+        .filter((img): img is GameImage => img !== undefined)
+      if (originals.length === 0) return []
+
+      // The untouched upload is only kept in the database; copy it so the copy can still be re-edited
+      const copies: GameImage[] = []
+      for (const image of originals) {
+        copies.push({
+          ...image,
+          id: generateId(),
+          categoryId: targetCategoryId,
+          source: image.edits ? await db.getImageSource(image.id) ?? undefined : undefined,
+          metadata: { ...image.metadata }
+        })
+      }
+
+      const updatedTarget: Category = {
+        ...target,
+        imageIds: [...target.imageIds, ...copies.map(img => img.id)],
+        updatedAt: new Date()
+      }
+
+      await db.saveLibraryChanges({ categories: [updatedTarget], newImages: copies })
+
+      applyCategoryUpdates([updatedTarget])
+      images.value.push(...copies.map(img => ({ ...img, source: undefined })))
+      return copies
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to copy images'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Delete several images and take them out of their categories in one transaction
+   */
+  const deleteImages = async (imageIds: string[]) => {
+    try {
+      loading.value = true
+      error.value = null
+
+      const deletingIds = new Set(imageIds)
+      const deleting = images.value.filter((img: GameImage) => deletingIds.has(img.id))
+      if (deleting.length === 0) return
+
+      const affectedCategoryIds = new Set(deleting.map(img => img.categoryId))
+      const updatedAt = new Date()
+      const updatedCategories = categories.value
+        .filter((cat: Category) => affectedCategoryIds.has(cat.id))
+        .map((cat: Category) => ({
+          ...cat,
+          imageIds: cat.imageIds.filter(id => !deletingIds.has(id)),
+          updatedAt
+        }))
+
+      await db.saveLibraryChanges({
+        categories: updatedCategories,
+        deletedImageIds: deleting.map(img => img.id)
+      })
+
+      applyCategoryUpdates(updatedCategories)
+      images.value = images.value.filter((img: GameImage) => !deletingIds.has(img.id))
+      deleting.forEach(img => stageCache.invalidate(img.id))
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to delete images'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
   const loadCategories = async () => {
     try {
       loading.value = true
@@ -207,96 +549,8 @@ export const useCategoriesStore = defineStore('categories', () => {
       
       console.log('Loaded from database:', loadedCategories.length, 'categories,', loadedImages.length, 'images')
       
-      // Validate and fix incomplete images before setting state
-      console.log('Validating loaded images...')
-      const validatedImages: GameImage[] = []
-      
-      for (const image of loadedImages) {
-        // Ensure dates are Date objects (convert from string if needed)
-        const imageWithDateObjects = {
-          ...image,
-          metadata: {
-            ...image.metadata,
-            uploadedAt: image.metadata.uploadedAt instanceof Date 
-              ? image.metadata.uploadedAt 
-              : new Date(image.metadata.uploadedAt),
-            processedAt: image.metadata.processedAt instanceof Date 
-              ? image.metadata.processedAt 
-              : new Date(image.metadata.processedAt)
-          }
-        }
-        
-        console.log(`Validating image ${imageWithDateObjects.originalName}:`, {
-          level1: imageWithDateObjects.pixelationLevels.level1?.size || 0,
-          level2: imageWithDateObjects.pixelationLevels.level2?.size || 0,
-          level3: imageWithDateObjects.pixelationLevels.level3?.size || 0,
-          level4: imageWithDateObjects.pixelationLevels.level4?.size || 0
-        })
-        
-        const isValid = ImageProcessingService.validatePixelationLevels(imageWithDateObjects.pixelationLevels)
-        
-        if (!isValid) {
-          console.warn(`Image ${imageWithDateObjects.originalName} has incomplete pixelation levels, checking if regeneration is possible...`)
-          
-          try {
-            // CRITICAL: Only attempt regeneration if we have the original (level4) available
-            // Never regenerate from pixelated levels as this corrupts image quality
-            const originalSourceBlob = imageWithDateObjects.pixelationLevels.level4
-            
-            if (originalSourceBlob && originalSourceBlob.size > 0) {
-              console.log(`Regenerating ${imageWithDateObjects.originalName} from original source (${originalSourceBlob.size} bytes)...`)
-              
-              // Try regeneration with proper error handling
-              const regeneratedLevels = await ImageProcessingService.regeneratePixelationLevels(
-                originalSourceBlob, // Pass original as both parameters since we have it
-                imageWithDateObjects.pixelationLevels
-              )
-              
-              // Validate regenerated levels before proceeding
-              const regenerationValid = ImageProcessingService.validatePixelationLevels(regeneratedLevels)
-              
-              if (!regenerationValid) {
-                console.error(`Regeneration failed validation for ${imageWithDateObjects.originalName}`)
-                continue // Skip this image
-              }
-              
-              console.log(`Successfully regenerated ${imageWithDateObjects.originalName}:`, {
-                level1: regeneratedLevels.level1?.size || 0,
-                level2: regeneratedLevels.level2?.size || 0,
-                level3: regeneratedLevels.level3?.size || 0,
-                level4: regeneratedLevels.level4?.size || 0
-              })
-              
-              // Create updated image with regenerated levels
-              const updatedImage: GameImage = {
-                ...imageWithDateObjects,
-                pixelationLevels: regeneratedLevels
-              }
-              
-              // Save with explicit validation before adding to validated set
-              try {
-                await db.saveImage(updatedImage)
-                console.log(`Successfully saved regenerated ${imageWithDateObjects.originalName} to database`)
-                validatedImages.push(updatedImage)
-              } catch (saveError) {
-                console.error(`Failed to save regenerated ${imageWithDateObjects.originalName}:`, saveError)
-                // Don't add to validated set if save failed
-              }
-            } else {
-              console.error(`Cannot regenerate ${imageWithDateObjects.originalName}: no original (level4) source available. Image will be excluded from game.`)
-              console.warn(`Corrupted image ${imageWithDateObjects.originalName} excluded - missing original source for regeneration`)
-            }
-          } catch (regenerationError) {
-            console.error(`Failed to regenerate ${imageWithDateObjects.originalName}:`, regenerationError)
-            console.warn(`Excluding corrupted image ${imageWithDateObjects.originalName} from game`)
-          }
-        } else {
-          console.log(`Image ${imageWithDateObjects.originalName} is valid, adding to validated set`)
-          validatedImages.push(imageWithDateObjects)
-        }
-      }
-      
-      console.log(`Validation complete: ${validatedImages.length}/${loadedImages.length} images are valid`)
+      // Images without an original were already left out, since no stage can be rendered for them
+      const validatedImages: GameImage[] = loadedImages
       
       // Update category imageIds to only include valid images
       const validImageIds = new Set(validatedImages.map(img => img.id))
@@ -327,6 +581,9 @@ export const useCategoriesStore = defineStore('categories', () => {
     } catch (err) {
       console.error('Error in loadCategories:', err)
       error.value = err instanceof Error ? err.message : 'Failed to load categories'
+      if (err instanceof MigrationError) {
+        migrationFailure.value = err
+      }
       throw err
     } finally {
       loading.value = false
@@ -337,58 +594,22 @@ export const useCategoriesStore = defineStore('categories', () => {
     error.value = null
   }
 
-  // Debug function for manual regeneration
-  const debugRegenerateImages = async () => {
-    console.log('Manual regeneration triggered...')
-    try {
-      loading.value = true
-      const loadedImages = await db.getImages()
-      
-      let regeneratedCount = 0
-      for (const image of loadedImages) {
-        const isValid = ImageProcessingService.validatePixelationLevels(image.pixelationLevels)
-        if (!isValid) {
-          // Only attempt regeneration if we have the original (level4)
-          const originalSourceBlob = image.pixelationLevels.level4
-          
-          if (originalSourceBlob && originalSourceBlob.size > 0) {
-            const regeneratedLevels = await ImageProcessingService.regeneratePixelationLevels(
-              originalSourceBlob,
-              image.pixelationLevels
-            )
-            
-            const updatedImage: GameImage = {
-              ...image,
-              pixelationLevels: regeneratedLevels
-            }
-            
-            await db.saveImage(updatedImage)
-            regeneratedCount++
-            console.log(`Regenerated ${image.originalName}`)
-          } else {
-            console.log(`Cannot regenerate ${image.originalName} - no original source available`)
-          }
-        }
-      }
-      
-      console.log(`Manual regeneration complete: ${regeneratedCount} images processed`)
-      await loadCategories() // Reload everything
-    } catch (error) {
-      console.error('Manual regeneration failed:', error)
-    } finally {
-      loading.value = false
-    }
+  /**
+   * Delete the un-upgradable database and start again with an empty library
+   */
+  const resetAfterFailedMigration = async () => {
+    await db.resetDatabase()
+    migrationFailure.value = null
+    await loadCategories()
   }
 
-  // Expose debug function
-  ;(window as any).debugRegenerateImages = debugRegenerateImages
-
   return {
     // State
     categories,
     images,
     loading,
     error,
+    migrationFailure,
     
     // Getters
     getCategoryById,
@@ -401,8 +622,17 @@ export const useCategoriesStore = defineStore('categories', () => {
     deleteCategory,
     addImageToCategory,
     removeImageFromCategory,
+    updateImageDetails,
+    editImage,
+    findDuplicateImages,
+    ensurePerceptualHashes,
+    replaceImage,
+    reorderImages,
+    moveImages,
+    copyImages,
+    deleteImages,
     loadCategories,
     clearError,
-    debugRegenerateImages
+    resetAfterFailedMigration
   }
 })
@@ -1,31 +1,128 @@
 import { defineStore } from 'pinia'
-import { ref, computed } from 'vue'
-import type { GameState, Category, GameImage, PixelationLevel } from '@/types'
+import { ref, computed, watch } from 'vue'
+import type { BuzzRecord, GameState, GameSyncState, Category, GameImage, ImageOrder, PixelationLevel, PlayRecord, RevealMode, TileGrid } from '@/types'
+import { useSettingsStore } from './settings'
+import { useCategoriesStore } from './categories'
+import { stageCache, type StageOptions } from '@/services/stageCache'
+import { db } from '@/services/database'
+import { orderImages } from '@/services/gameOrder'
+import { generateId } from '@/utils'
+
+export const DEFAULT_TILE_COLUMNS = 6
+export const DEFAULT_TILE_ROWS = 4
+export const MIN_TILE_DIMENSION = 2
+export const MAX_TILE_DIMENSION = 12
+export const MAX_STAGE_SECONDS = 300
+export const MAX_AVOID_RECENT_GAMES = 50
+
+// Settings key the game in progress is saved under
+const SESSION_SETTING_KEY = 'gameSession'
+
+export interface GameSettings {
+  showProgress: boolean
+  autoAdvance: boolean
+  imageOrder: ImageOrder
+  orderSeed: string // Same seed and images give the same shuffle; blank for a new one every game
+  avoidRecentGames: number // Leave out images played in this many of the latest games, 0 allows repeats
+  revealMode: RevealMode
+  tileColumns: number
+  tileRows: number
+  stageSeconds: number // Round timer per reveal stage, 0 turns it off
+  typedGuesses: boolean // Players type guesses and the app judges them against the answers
+  revealOnWrongGuess: boolean
+}
+
+/**
+ * A game in progress, saved as it is played so it can be resumed after a reload
+ */
+export interface SavedGameSession {
+  gameId: string
+  category: Category // May be a playlist or search results rather than a stored category
+  imageIds: string[] // In the order they are played, including any shuffle
+  currentImageIndex: number
+  currentPixelationLevel: number
+  uncoveredTiles: number[]
+  gameMode: 'playing' | 'paused'
+  gameSettings: GameSettings
+  presenting: boolean // Played from the presenter view with an audience window
+  savedAt: Date
+}
 
 export const useGameStore = defineStore('game', () => {
+  const settingsStore = useSettingsStore()
+  const categoriesStore = useCategoriesStore()
+
   // State
+  const gameId = ref<string | null>(null) // New for every game, to group its history
   const currentCategory = ref<Category | null>(null)
   const currentImages = ref<GameImage[]>([])
   const currentImageIndex = ref(0)
   const currentPixelationLevel = ref<PixelationLevel>(1)
+  const uncoveredTiles = ref<number[]>([])
   const gameMode = ref<GameState['gameMode']>('setup')
   const isFullscreen = ref(false)
-  const gameSettings = ref({
+  const isPresenting = ref(false)
+  const buzzes = ref<BuzzRecord[]>([]) // Every buzz this game, in the order they arrived
+  const gameSettings = ref<GameSettings>({
     showProgress: true,
     autoAdvance: false,
-    shuffleImages: false
+    imageOrder: 'stored',
+    orderSeed: '',
+    avoidRecentGames: 0,
+    revealMode: 'stages',
+    tileColumns: DEFAULT_TILE_COLUMNS,
+    tileRows: DEFAULT_TILE_ROWS,
+    stageSeconds: 0,
+    typedGuesses: false,
+    revealOnWrongGuess: true
   })
 
+  // Only a game started or resumed in this window is saved; the audience window just mirrors one
+  let ownsSession = false
+
   // Getters
   const currentImage = computed(() => {
     return currentImages.value[currentImageIndex.value] || null
   })
 
-  const currentImageBlob = computed(() => {
-    if (!currentImage.value) return null
-    
-    const level = `level${currentPixelationLevel.value}` as keyof GameImage['pixelationLevels']
-    return currentImage.value.pixelationLevels[level]
+  const isTileMode = computed(() => gameSettings.value.revealMode === 'tiles')
+
+  // How an image's stages are rendered: with its own category's stages, as playlist and search games
+  // mix categories. Read live so settings changes apply mid-game.
+  const getStageOptions = (image: GameImage | null): StageOptions => {
+    const category = (image && categoriesStore.getCategoryById(image.categoryId)) || currentCategory.value
+    return {
+      pixelSizes: settingsStore.getPixelSizesForCategory(category),
+      effect: category?.revealEffect,
+      quality: settingsStore.settings.compressionQuality
+    }
+  }
+
+  const stageOptions = computed(() => getStageOptions(currentImage.value))
+
+  // Number of reveal stages for the current image (the final stage is the original)
+  const totalLevels = computed(() => {
+    return currentImage.value ? stageOptions.value.pixelSizes.length : 0
+  })
+
+  const tileCount = computed(() => gameSettings.value.tileColumns * gameSettings.value.tileRows)
+
+  const tileGrid = computed<TileGrid | null>(() => {
+    if (!isTileMode.value) return null
+    return {
+      columns: gameSettings.value.tileColumns,
+      rows: gameSettings.value.tileRows,
+      uncovered: uncoveredTiles.value
+    }
+  })
+
+  // Reveal progress independent of mode, 1-based like pixelation levels (for scoring)
+  const revealStep = computed(() => {
+    return isTileMode.value ? uncoveredTiles.value.length + 1 : currentPixelationLevel.value
+  })
+
+  const revealStepCount = computed(() => {
+    return isTileMode.value ? tileCount.value + 1 : totalLevels.value
   })
 
   const gameProgress = computed(() => {
@@ -40,6 +137,10 @@ export const useGameStore = defineStore('game', () => {
     }
   })
 
+  const upcomingImage = computed(() => {
+    return currentImages.value[currentImageIndex.value + 1] || null
+  })
+
   const canGoNext = computed(() => {
     return currentImageIndex.value < currentImages.value.length - 1
   })
@@ -48,24 +149,188 @@ export const useGameStore = defineStore('game', () => {
     return currentImageIndex.value > 0
   })
 
+  // The player answering a buzz holds the reveal where it is
+  const answeringBuzz = computed(() => buzzes.value.find(buzz => !buzz.result) ?? null)
+
   const canRevealMore = computed(() => {
-    return currentPixelationLevel.value < 4
+    return revealStep.value < revealStepCount.value && !answeringBuzz.value
+  })
+
+  // Who buzzed first at each reveal step of each image
+  const firstBuzzes = computed(() => {
+    const seen = new Set<string>()
+    return buzzes.value.filter(buzz => {
+      const key = `${buzz.imageId}:${buzz.revealStep}`
+      if (seen.has(key)) return false
+      seen.add(key)
+      return true
+    })
+  })
+
+  // Players who answered wrongly wait for the next reveal before buzzing again
+  const lockedOutPlayerIds = computed(() => {
+    const image = currentImage.value
+    if (!image) return []
+    return buzzes.value
+      .filter(buzz => buzz.imageId === image.id && buzz.revealStep === revealStep.value && buzz.result === 'wrong')
+      .map(buzz => buzz.playerId)
+  })
+
+  const isBuzzOpen = computed(() => {
+    const image = currentImage.value
+    return gameMode.value === 'playing' &&
+      image !== null &&
+      !answeringBuzz.value &&
+      !buzzes.value.some(buzz => buzz.imageId === image.id && buzz.result === 'correct')
   })
 
   const isGameReady = computed(() => {
     return currentCategory.value !== null && currentImages.value.length > 0
   })
 
+  // Render the current and next image's stages ahead of time so reveals don't wait
+  const upcomingStageOptions = computed(() => getStageOptions(upcomingImage.value))
+
+  watch(
+    [currentImage, upcomingImage, stageOptions, upcomingStageOptions],
+    ([image, upcoming, options, upcomingOptions]) => {
+      stageCache.prefetch(image, options)
+      stageCache.prefetch(upcoming, upcomingOptions)
+    }
+  )
+
+  // A settings change can leave fewer stages than the current position
+  watch(totalLevels, (count) => {
+    if (count > 0 && currentPixelationLevel.value > count) {
+      currentPixelationLevel.value = count
+    }
+  })
+
+  // Session persistence
+  const saveSession = async () => {
+    if (!ownsSession || !currentCategory.value || gameMode.value === 'setup') return
+
+    const category = currentCategory.value
+    try {
+      await db.setSetting(SESSION_SETTING_KEY, {
+        gameId: gameId.value,
+        // A plain copy without Vue proxies; its dates are stored as ISO strings like other records
+        category: JSON.parse(JSON.stringify(category)),
+        imageIds: currentImages.value.map(image => image.id),
+        currentImageIndex: currentImageIndex.value,
+        currentPixelationLevel: currentPixelationLevel.value,
+        uncoveredTiles: [...uncoveredTiles.value],
+        gameMode: gameMode.value,
+        gameSettings: { ...gameSettings.value },
+        presenting: isPresenting.value,
+        savedAt: new Date().toISOString()
+      })
+    } catch (err) {
+      // Losing the saved session only matters after a reload, so the game carries on
+      console.warn('Failed to save game session:', err)
+    }
+  }
+
+  watch(
+    [currentImages, currentImageIndex, currentPixelationLevel, uncoveredTiles, gameMode, gameSettings, isPresenting],
+    () => { saveSession() },
+    { deep: true }
+  )
+
+  const clearSavedSession = async () => {
+    try {
+      await db.setSetting(SESSION_SETTING_KEY, null)
+    } catch (err) {
+      console.warn('Failed to clear saved game session:', err)
+    }
+  }
+
+  /**
+   * The game that was in progress when the app was last closed, if any
+   */
+  const getSavedSession = async (): Promise<SavedGameSession | null> => {
+    try {
+      const stored = await db.getSetting(SESSION_SETTING_KEY)
+      if (!stored || !Array.isArray(stored.imageIds) || !stored.category) return null
+      return {
+        ...stored,
+        category: {
+          ...stored.category,
+          createdAt: new Date(stored.category.createdAt),
+          updatedAt: new Date(stored.category.updatedAt)
+        },
+        savedAt: new Date(stored.savedAt)
+      }
+    } catch (err) {
+      console.warn('Failed to read saved game session:', err)
+      return null
+    }
+  }
+
+  /**
+   * Continue a saved game in the same order and at the same reveal. Images deleted since are
+   * skipped; if the current one is gone the game continues with the next image.
+   */
+  const resumeSession = (session: SavedGameSession, libraryImages: GameImage[]) => {
+    const imagesById = new Map(libraryImages.map(image => [image.id, image]))
+    const images = session.imageIds
+      .map(id => imagesById.get(id))
+      .filter((image): image is GameImage => image !== undefined)
+    if (images.length === 0) {
+      throw new Error('None of the images in this game are in the library any more')
+    }
+
+    const currentId = session.imageIds[session.currentImageIndex]
+    const resumedIndex = images.findIndex(image => image.id === currentId)
+
+    gameId.value = session.gameId ?? generateId()
+    currentCategory.value = session.category
+    currentImages.value = images
+    updateGameSettings(session.gameSettings)
+    isPresenting.value = session.presenting
+    gameMode.value = session.gameMode
+    ownsSession = true
+
+    if (resumedIndex === -1) {
+      const remainingBefore = session.imageIds
+        .slice(0, session.currentImageIndex)
+        .filter(id => imagesById.has(id)).length
+      currentImageIndex.value = Math.min(remainingBefore, images.length - 1)
+      resetReveal()
+    } else {
+      currentImageIndex.value = resumedIndex
+      currentPixelationLevel.value = session.currentPixelationLevel
+      uncoveredTiles.value = [...session.uncoveredTiles]
+    }
+  }
+
+  const setPresenting = (presenting: boolean) => {
+    isPresenting.value = presenting
+  }
+
   // Actions
-  const startGame = async (category: Category, images: GameImage[]) => {
+  /**
+   * Start a game with the images in the order the game settings choose.
+   * Returns how many recently played images were left out.
+   */
+  const startGame = async (category: Category, images: GameImage[], history: PlayRecord[] = []) => {
     try {
+      const { images: ordered, skippedRecent } = orderImages(images, {
+        order: gameSettings.value.imageOrder,
+        seed: gameSettings.value.orderSeed,
+        avoidRecentGames: gameSettings.value.avoidRecentGames,
+        history
+      })
+
+      gameId.value = generateId()
       currentCategory.value = category
-      currentImages.value = gameSettings.value.shuffleImages 
-        ? [...images].sort(() => Math.random() - 0.5)
-        : images
+      currentImages.value = ordered
       currentImageIndex.value = 0
-      currentPixelationLevel.value = 1
+      buzzes.value = []
+      resetReveal()
       gameMode.value = 'playing'
+      ownsSession = true
+      return skippedRecent
     } catch (err) {
       console.error('Failed to start game:', err)
       throw err
@@ -75,31 +340,53 @@ export const useGameStore = defineStore('game', () => {
   const nextImage = () => {
     if (canGoNext.value) {
       currentImageIndex.value++
-      currentPixelationLevel.value = 1 // Reset to most pixelated
+      resetReveal()
     }
   }
 
   const previousImage = () => {
     if (canGoPrevious.value) {
       currentImageIndex.value--
-      currentPixelationLevel.value = 1 // Reset to most pixelated
+      resetReveal()
     }
   }
 
+  // Back to the most obscured state: first pixelation level, every tile covered
+  const resetReveal = () => {
+    currentPixelationLevel.value = 1
+    uncoveredTiles.value = []
+    // An answer still pending belongs to the reveal being left
+    buzzes.value = buzzes.value.filter(buzz => buzz.result)
+  }
+
   const revealMore = () => {
-    if (canRevealMore.value) {
-      currentPixelationLevel.value = (currentPixelationLevel.value + 1) as PixelationLevel
+    if (!canRevealMore.value) return
+
+    if (isTileMode.value) {
+      // Uncover a random tile that is still covered
+      const covered = Array.from({ length: tileCount.value }, (_, index) => index)
+        .filter(index => !uncoveredTiles.value.includes(index))
+      uncoverTile(covered[Math.floor(Math.random() * covered.length)])
+    } else {
+      currentPixelationLevel.value = currentPixelationLevel.value + 1
+    }
+  }
+
+  const uncoverTile = (index: number) => {
+    if (!isTileMode.value || index < 0 || index >= tileCount.value || answeringBuzz.value) return
+    if (!uncoveredTiles.value.includes(index)) {
+      uncoveredTiles.value = [...uncoveredTiles.value, index]
     }
   }
 
   const resetImage = () => {
-    currentPixelationLevel.value = 1
+    resetReveal()
   }
 
   const goToImage = (index: number) => {
     if (index >= 0 && index < currentImages.value.length) {
       currentImageIndex.value = index
-      currentPixelationLevel.value = 1
+      resetReveal()
     }
   }
 
@@ -126,16 +413,98 @@ export const useGameStore = defineStore('game', () => {
   }
 
   const endGame = () => {
+    if (ownsSession) {
+      ownsSession = false
+      clearSavedSession()
+    }
     gameMode.value = 'setup'
+    gameId.value = null
     currentCategory.value = null
     currentImages.value = []
     currentImageIndex.value = 0
-    currentPixelationLevel.value = 1
+    buzzes.value = []
+    resetReveal()
     isFullscreen.value = false
   }
 
+  /**
+   * Let a player answer, if buzzing is open to them. Locks the reveal until resolveBuzz().
+   */
+  const recordBuzz = (playerId: string, playerName: string): BuzzRecord | null => {
+    const image = currentImage.value
+    if (!isBuzzOpen.value || !image || lockedOutPlayerIds.value.includes(playerId)) return null
+
+    const buzz: BuzzRecord = {
+      id: generateId(),
+      imageId: image.id,
+      revealStep: revealStep.value,
+      playerId,
+      playerName,
+      buzzedAt: new Date()
+    }
+    buzzes.value = [...buzzes.value, buzz]
+    return buzz
+  }
+
+  const resolveBuzz = (correct: boolean): BuzzRecord | null => {
+    const pending = answeringBuzz.value
+    if (!pending) return null
+
+    const resolved: BuzzRecord = { ...pending, result: correct ? 'correct' : 'wrong' }
+    buzzes.value = buzzes.value.map(buzz => (buzz.id === pending.id ? resolved : buzz))
+    return resolved
+  }
+
+  // Reveal position and mode, for mirroring this game in another window
+  const getSyncState = (): GameSyncState => ({
+    currentImageIndex: currentImageIndex.value,
+    currentPixelationLevel: currentPixelationLevel.value,
+    uncoveredTiles: [...uncoveredTiles.value],
+    gameMode: gameMode.value,
+    revealMode: gameSettings.value.revealMode,
+    tileColumns: gameSettings.value.tileColumns,
+    tileRows: gameSettings.value.tileRows
+  })
+
+  const applySyncState = (state: GameSyncState) => {
+    gameSettings.value = {
+      ...gameSettings.value,
+      revealMode: state.revealMode,
+      tileColumns: state.tileColumns,
+      tileRows: state.tileRows
+    }
+    currentImageIndex.value = state.currentImageIndex
+    currentPixelationLevel.value = state.currentPixelationLevel
+    uncoveredTiles.value = [...state.uncoveredTiles]
+    gameMode.value = state.gameMode
+  }
+
+  // Take over another window's game as-is, keeping its image order
+  const loadSyncedGame = (category: Category | null, images: GameImage[]) => {
+    ownsSession = false
+    currentCategory.value = category
+    currentImages.value = images
+  }
+
   const updateGameSettings = (settings: Partial<typeof gameSettings.value>) => {
-    gameSettings.value = { ...gameSettings.value, ...settings }
+    const clampTiles = (value: number) => Math.min(Math.max(Math.round(value), MIN_TILE_DIMENSION), MAX_TILE_DIMENSION)
+    const merged = { ...gameSettings.value, ...settings }
+    const gridChanged = merged.revealMode !== gameSettings.value.revealMode ||
+      merged.tileColumns !== gameSettings.value.tileColumns ||
+      merged.tileRows !== gameSettings.value.tileRows
+
+    gameSettings.value = {
+      ...merged,
+      tileColumns: clampTiles(merged.tileColumns),
+      tileRows: clampTiles(merged.tileRows),
+      stageSeconds: Math.min(Math.max(Math.round(merged.stageSeconds) || 0, 0), MAX_STAGE_SECONDS),
+      avoidRecentGames: Math.min(Math.max(Math.round(merged.avoidRecentGames) || 0, 0), MAX_AVOID_RECENT_GAMES)
+    }
+
+    // Uncovered tile indices only make sense for the grid they were picked on
+    if (gridChanged) {
+      resetReveal()
+    }
   }
 
   // Handle fullscreen change events
@@ -150,21 +519,37 @@ export const useGameStore = defineStore('game', () => {
 
   return {
     // State
+    gameId,
     currentCategory,
     currentImages,
     currentImageIndex,
     currentPixelationLevel,
+    uncoveredTiles,
     gameMode,
     isFullscreen,
+    isPresenting,
     gameSettings,
+    buzzes,
     
     // Getters
     currentImage,
-    currentImageBlob,
+    stageOptions,
+    getStageOptions,
+    totalLevels,
+    isTileMode,
+    tileCount,
+    tileGrid,
+    revealStep,
+    revealStepCount,
+    upcomingImage,
     gameProgress,
     canGoNext,
     canGoPrevious,
     canRevealMore,
+    answeringBuzz,
+    firstBuzzes,
+    lockedOutPlayerIds,
+    isBuzzOpen,
     isGameReady,
     
     // Actions
@@ -172,12 +557,22 @@ export const useGameStore = defineStore('game', () => {
     nextImage,
     previousImage,
     revealMore,
+    uncoverTile,
     resetImage,
     goToImage,
     toggleFullscreen,
     pauseGame,
     resumeGame,
     endGame,
-    updateGameSettings
+    recordBuzz,
+    resolveBuzz,
+    getSyncState,
+    applySyncState,
+    loadSyncedGame,
+    updateGameSettings,
+    getSavedSession,
+    resumeSession,
+    clearSavedSession,
+    setPresenting
   }
 })
@@ -0,0 +1,212 @@
+// Game history store for Name That Thing
+//
+// Records how every image of a game went: guessed at which reveal step, or left unguessed, and how
+// long it was on screen. Only the window running the game records, between startTracking() and
+// stopTracking(); the audience window mirrors the game without adding to its history.
+import { defineStore } from 'pinia'
+import { ref, reactive, computed, watch } from 'vue'
+import { useGameStore } from '@/stores/game'
+import { db } from '@/services/database'
+import { getImageDifficulties, getCategoryDifficulties, getHardestImages, summarizeGames } from '@/services/difficultyStats'
+import type { GameImage, PlayOutcome, PlayRecord } from '@/types'
+
+interface ImageVisit {
+  image: GameImage
+  startedAt: number
+  furthestStep: number
+  stepCount: number
+}
+
+export const useHistoryStore = defineStore('history', () => {
+  const gameStore = useGameStore()
+
+  // State
+  const records = ref<PlayRecord[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Outcomes already recorded for the tracked game, by image id
+  const outcomes = reactive(new Map<string, PlayOutcome>())
+  let trackedGameId: string | null = null
+  let tracking = false
+  let visit: ImageVisit | null = null
+
+  // Getters
+  const imageDifficulties = computed(() => getImageDifficulties(records.value))
+  const categoryDifficulties = computed(() => getCategoryDifficulties(records.value))
+  const games = computed(() => summarizeGames(records.value))
+
+  const currentOutcome = computed(() => {
+    const image = gameStore.currentImage
+    return image ? outcomes.get(image.id) ?? null : null
+  })
+
+  const getHardest = (limit?: number, minPlays?: number) => {
+    return getHardestImages(records.value, limit, minPlays)
+  }
+
+  // Recording
+  const getRecordId = (gameId: string, imageId: string) => `${gameId}_${imageId}`
+
+  const buildRecord = (gameId: string, current: ImageVisit, outcome: PlayOutcome, revealStep: number): PlayRecord => ({
+    id: getRecordId(gameId, current.image.id),
+    gameId,
+    gameName: gameStore.currentCategory?.name ?? '',
+    imageId: current.image.id,
+    categoryId: current.image.categoryId,
+    outcome,
+    revealStep,
+    revealStepCount: current.stepCount,
+    secondsSpent: Math.round((Date.now() - current.startedAt) / 1000),
+    playedAt: new Date()
+  })
+
+  // History is a record of play, so failing to write it never interrupts the game
+  const saveRecord = async (record: PlayRecord) => {
+    outcomes.set(record.imageId, record.outcome)
+    records.value = [...records.value.filter(existing => existing.id !== record.id), record]
+    try {
+      await db.saveHistoryRecord(record)
+    } catch (err) {
+      console.warn('Failed to save game history:', err)
+    }
+  }
+
+  const beginVisit = () => {
+    const image = gameStore.currentImage
+    visit = image
+      ? { image, startedAt: Date.now(), furthestStep: gameStore.revealStep, stepCount: gameStore.revealStepCount }
+      : null
+  }
+
+  // An image left without a guess counts as skipped at the furthest step it reached
+  const finishVisit = async () => {
+    const finished = visit
+    visit = null
+    if (!finished || !trackedGameId || outcomes.has(finished.image.id)) return
+    await saveRecord(buildRecord(trackedGameId, finished, 'skipped', finished.furthestStep))
+  }
+
+  watch(() => gameStore.currentImage?.id, () => {
+    if (!tracking) return
+    finishVisit()
+    beginVisit()
+  })
+
+  watch(() => gameStore.revealStep, (step) => {
+    if (!visit) return
+    visit.furthestStep = Math.max(visit.furthestStep, step)
+    visit.stepCount = gameStore.revealStepCount
+  })
+
+  // Actions
+  const startTracking = async () => {
+    tracking = true
+    const gameId = gameStore.gameId
+    if (gameId !== trackedGameId) {
+      trackedGameId = gameId
+      outcomes.clear()
+      // A resumed game keeps the outcomes recorded before it was interrupted
+      if (gameId) {
+        try {
+          const previous = await db.getHistory(gameId)
+          previous.forEach(record => outcomes.set(record.imageId, record.outcome))
+        } catch (err) {
+          console.warn('Failed to load game history:', err)
+        }
+      }
+    }
+    beginVisit()
+  }
+
+  // The image on screen is recorded when the game is next played, not when the page closes
+  const stopTracking = () => {
+    tracking = false
+    visit = null
+  }
+
+  /**
+   * Record the current image as guessed at the step now showing
+   */
+  const recordGuess = async () => {
+    if (!tracking || !visit || !trackedGameId) return
+    await saveRecord(buildRecord(trackedGameId, visit, 'guessed', gameStore.revealStep))
+  }
+
+  /**
+   * Take back a guess on the current image; it is recorded again when the image is left
+   */
+  const clearGuess = async () => {
+    const image = gameStore.currentImage
+    if (!trackedGameId || !image || outcomes.get(image.id) !== 'guessed') return
+
+    const id = getRecordId(trackedGameId, image.id)
+    outcomes.delete(image.id)
+    records.value = records.value.filter(record => record.id !== id)
+    try {
+      await db.deleteHistoryRecord(id)
+    } catch (err) {
+      console.warn('Failed to update game history:', err)
+    }
+  }
+
+  /**
+   * Record the image on screen before the game ends
+   */
+  const finishGame = async () => {
+    if (!tracking) return
+    await finishVisit()
+  }
+
+  const loadHistory = async () => {
+    try {
+      loading.value = true
+      error.value = null
+      const loaded = await db.getHistory()
+      records.value = loaded.sort((a, b) => a.playedAt.getTime() - b.playedAt.getTime())
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to load game history'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  const clearHistory = async () => {
+    try {
+      loading.value = true
+      error.value = null
+      await db.clearHistory()
+      records.value = []
+      outcomes.clear()
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to clear game history'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  return {
+    // State
+    records,
+    loading,
+    error,
+
+    // Getters
+    imageDifficulties,
+    categoryDifficulties,
+    games,
+    currentOutcome,
+    getHardest,
+
+    // Actions
+    startTracking,
+    stopTracking,
+    recordGuess,
+    clearGuess,
+    finishGame,
+    loadHistory,
+    clearHistory
+  }
+})
@@ -0,0 +1,171 @@
+// Playlists store for Name That Thing
+//
+// A playlist is a saved list of images from any number of categories, in the order they should be
+// played. It is played like a category: toGameCategory() gives the game store a Category holding
+// the playlist's images, and each image still knows the category it came from.
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import type { Category, GameImage, Playlist } from '@/types'
+import { db } from '@/services/database'
+import { generateId, shuffleArray } from '@/utils'
+import { useCategoriesStore } from './categories'
+
+export const usePlaylistsStore = defineStore('playlists', () => {
+  const categoriesStore = useCategoriesStore()
+
+  // State
+  const playlists = ref<Playlist[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  // Getters
+  const getPlaylistById = computed(() => {
+    return (id: string) => playlists.value.find(playlist => playlist.id === id)
+  })
+
+  /**
+   * The playlist's images that are still in the library, in play order
+   */
+  const getPlaylistImages = (playlist: Pick<Playlist, 'imageIds'>): GameImage[] => {
+    const imagesById = new Map(categoriesStore.images.map(image => [image.id, image]))
+    return playlist.imageIds
+      .map(id => imagesById.get(id))
+      .filter((image): image is GameImage => image !== undefined)
+  }
+
+  /**
+   * Up to perCategory random images from each of the given categories
+   */
+  const pickRandomImages = (categoryIds: string[], perCategory: number, excludeIds: string[] = []): GameImage[] => {
+    const excluded = new Set(excludeIds)
+    return categoryIds.flatMap(categoryId => {
+      const available = categoriesStore.getImagesByCategory(categoryId).filter(image => !excluded.has(image.id))
+      return shuffleArray(available).slice(0, Math.max(0, perCategory))
+    })
+  }
+
+  /**
+   * Images with any of the tags, either on the image itself or on its category
+   */
+  const pickImagesByTags = (tags: string[], excludeIds: string[] = []): GameImage[] => {
+    const excluded = new Set(excludeIds)
+    return categoriesStore.images.filter(image => {
+      if (excluded.has(image.id)) return false
+      const categoryTags = categoriesStore.getCategoryById(image.categoryId)?.tags ?? []
+      return tags.some(tag => image.tags?.includes(tag) || categoryTags.includes(tag))
+    })
+  }
+
+  // The category the game is started with, for its name and image list only: each image is still
+  // revealed with its own category's stages. Images that were deleted are left out.
+  const toGameCategory = (playlist: Playlist): Category => ({
+    id: playlist.id,
+    name: playlist.name,
+    description: playlist.description,
+    imageIds: getPlaylistImages(playlist).map(image => image.id),
+    createdAt: playlist.createdAt,
+    updatedAt: playlist.updatedAt
+  })
+
+  // Actions
+  const loadPlaylists = async () => {
+    try {
+      loading.value = true
+      error.value = null
+
+      await db.init()
+      const loaded = await db.getPlaylists()
+      playlists.value = loaded.sort((a, b) => a.createdAt.getTime() - b.createdAt.getTime())
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to load playlists'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  const addPlaylist = async (playlistData: Omit<Playlist, 'id' | 'createdAt' | 'updatedAt'>) => {
+    try {
+      loading.value = true
+      error.value = null
+
+      const playlist: Playlist = {
+        id: generateId(),
+        ...playlistData,
+        createdAt: new Date(),
+        updatedAt: new Date()
+      }
+
+      await db.savePlaylist(playlist)
+      playlists.value.push(playlist)
+      return playlist
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to add playlist'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  const updatePlaylist = async (id: string, updates: Partial<Omit<Playlist, 'id' | 'createdAt'>>) => {
+    try {
+      loading.value = true
+      error.value = null
+
+      const playlistIndex = playlists.value.findIndex(playlist => playlist.id === id)
+      if (playlistIndex === -1) {
+        throw new Error('Playlist not found')
+      }
+
+      const updatedPlaylist: Playlist = {
+        ...playlists.value[playlistIndex],
+        ...updates,
+        updatedAt: new Date()
+      }
+
+      await db.savePlaylist(updatedPlaylist)
+      playlists.value[playlistIndex] = updatedPlaylist
+      return updatedPlaylist
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to update playlist'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  const deletePlaylist = async (id: string) => {
+    try {
+      loading.value = true
+      error.value = null
+
+      await db.deletePlaylist(id)
+      playlists.value = playlists.value.filter(playlist => playlist.id !== id)
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to delete playlist'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  return {
+    // State
+    playlists,
+    loading,
+    error,
+
+    // Getters
+    getPlaylistById,
+    getPlaylistImages,
+    pickRandomImages,
+    pickImagesByTags,
+    toGameCategory,
+
+    // Actions
+    loadPlaylists,
+    addPlaylist,
+    updatePlaylist,
+    deletePlaylist
+  }
+})
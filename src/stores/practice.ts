@@ -0,0 +1,220 @@
+// Solo practice store for Name That Thing
+//
+// Practice runs apart from the game store: rather than walking a fixed list by index, a session
+// keeps a queue chosen by spaced repetition. The image at the front is revealed stage by stage until
+// it is named or given up on, then its schedule is updated and saved. Images that were hard go back
+// to the end of the queue, but only an image's first review in a session changes its schedule.
+import { defineStore } from 'pinia'
+import { ref, computed } from 'vue'
+import { useCategoriesStore } from '@/stores/categories'
+import { useSettingsStore } from '@/stores/settings'
+import { db } from '@/services/database'
+import type { StageOptions } from '@/services/stageCache'
+import {
+  countPractice,
+  selectPracticeImages,
+  getReviewQuality,
+  reviewSchedule,
+  REPEAT_BELOW_QUALITY,
+  PASSING_QUALITY,
+  type PracticeSelection
+} from '@/services/spacedRepetition'
+import type { GameImage, PracticeSchedule } from '@/types'
+
+export interface PracticeReview {
+  imageId: string
+  guessed: boolean
+  quality: number
+  schedule: PracticeSchedule // As set by the image's first review this session
+  repeat: boolean // Comes back later in this session
+}
+
+export interface PracticeOptions {
+  limit: number // Most images in one session
+  newLimit: number // Most images seen for the first time in one session
+}
+
+export const usePracticeStore = defineStore('practice', () => {
+  const categoriesStore = useCategoriesStore()
+  const settingsStore = useSettingsStore()
+
+  // State
+  const schedules = ref<PracticeSchedule[]>([])
+  const loading = ref(false)
+  const error = ref<string | null>(null)
+
+  const isPracticing = ref(false)
+  const queue = ref<GameImage[]>([]) // The current image first
+  const revealStep = ref(1)
+  const currentReview = ref<PracticeReview | null>(null) // Set once the current image is answered
+  const results = ref<PracticeReview[]>([]) // First review of each image this session
+  const turn = ref(0) // Counts images shown, so a repeated image still starts afresh
+
+  // Getters
+  const schedulesById = computed(() => new Map(schedules.value.map(schedule => [schedule.imageId, schedule])))
+
+  const currentImage = computed(() => queue.value[0] ?? null)
+
+  // Each image is revealed with its own category's stages, as practice can mix categories
+  const stageOptions = computed<StageOptions>(() => {
+    const image = currentImage.value
+    const category = image ? categoriesStore.getCategoryById(image.categoryId) : null
+    return {
+      pixelSizes: settingsStore.getPixelSizesForCategory(category),
+      effect: category?.revealEffect,
+      quality: settingsStore.settings.compressionQuality
+    }
+  })
+
+  const revealStepCount = computed(() => (currentImage.value ? stageOptions.value.pixelSizes.length : 0))
+
+  const canRevealMore = computed(() => {
+    return !!currentImage.value && !currentReview.value && revealStep.value < revealStepCount.value
+  })
+
+  const summary = computed(() => ({
+    reviewed: results.value.length,
+    remembered: results.value.filter(result => result.quality >= PASSING_QUALITY).length,
+    remaining: queue.value.length
+  }))
+
+  const getCounts = (images: GameImage[]) => countPractice(images, schedulesById.value)
+
+  const getSchedule = (imageId: string) => schedulesById.value.get(imageId) ?? null
+
+  // Saving
+  const saveSchedule = async (schedule: PracticeSchedule) => {
+    schedules.value = [...schedules.value.filter(existing => existing.imageId !== schedule.imageId), schedule]
+    try {
+      await db.savePracticeSchedule(schedule)
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to save the practice schedule'
+      console.warn('Failed to save practice schedule:', err)
+    }
+  }
+
+  // Actions
+  const loadSchedules = async () => {
+    try {
+      loading.value = true
+      error.value = null
+      schedules.value = await db.getPracticeSchedules()
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to load practice schedules'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  /**
+   * Start a session with the due and new images among these; returns what was picked
+   */
+  const startSession = (images: GameImage[], options: PracticeOptions): PracticeSelection => {
+    const selection = selectPracticeImages(images, schedulesById.value, options.limit, options.newLimit)
+    queue.value = selection.images
+    results.value = []
+    revealStep.value = 1
+    currentReview.value = null
+    turn.value++
+    isPracticing.value = selection.images.length > 0
+    return selection
+  }
+
+  const revealMore = () => {
+    if (canRevealMore.value) {
+      revealStep.value++
+    }
+  }
+
+  /**
+   * Grade the current image by whether it was named at the step now showing
+   */
+  const answer = async (guessed: boolean) => {
+    const image = currentImage.value
+    if (!image || currentReview.value) return
+
+    const quality = getReviewQuality(guessed, revealStep.value, revealStepCount.value)
+    const firstReview = results.value.find(result => result.imageId === image.id)
+    const schedule = firstReview?.schedule ?? reviewSchedule(image.id, getSchedule(image.id), quality)
+    const review: PracticeReview = {
+      imageId: image.id,
+      guessed,
+      quality,
+      schedule,
+      repeat: quality < REPEAT_BELOW_QUALITY
+    }
+
+    currentReview.value = review
+    if (!firstReview) {
+      results.value = [...results.value, review]
+      await saveSchedule(schedule)
+    }
+  }
+
+  /**
+   * Move on from an answered image, sending it round again if it was hard
+   */
+  const next = () => {
+    const [current, ...rest] = queue.value
+    if (!current || !currentReview.value) return
+
+    queue.value = currentReview.value.repeat ? [...rest, current] : rest
+    revealStep.value = 1
+    currentReview.value = null
+    turn.value++
+  }
+
+  const endSession = () => {
+    isPracticing.value = false
+    queue.value = []
+    results.value = []
+    revealStep.value = 1
+    currentReview.value = null
+  }
+
+  const clearSchedules = async () => {
+    try {
+      loading.value = true
+      error.value = null
+      await db.clearPracticeSchedules()
+      schedules.value = []
+    } catch (err) {
+      error.value = err instanceof Error ? err.message : 'Failed to reset practice schedules'
+      throw err
+    } finally {
+      loading.value = false
+    }
+  }
+
+  return {
+    // State
+    schedules,
+    loading,
+    error,
+    isPracticing,
+    queue,
+    revealStep,
+    currentReview,
+    results,
+    turn,
+
+    // Getters
+    currentImage,
+    stageOptions,
+    revealStepCount,
+    canRevealMore,
+    summary,
+    getCounts,
+    getSchedule,
+
+    // Actions
+    loadSchedules,
+    startSession,
+    revealMore,
+    answer,
+    next,
+    endSession,
+    clearSchedules
+  }
+})
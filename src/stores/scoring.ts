@@ -0,0 +1,194 @@
+// Scoring store for Name That Thing team games
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import type { Team, RoundScore } from '@/types'
+import { generateId } from '@/utils'
+
+interface PersistedScores {
+  teams: Team[]
+  roundScores: Array<Omit<RoundScore, 'awardedAt'> & { awardedAt: string }>
+  pointsPerLevel: number
+}
+
+const STORAGE_KEY = 'name-that-thing-scores'
+const DEFAULT_POINTS_PER_LEVEL = 10
+const TEAM_COLORS = ['#2563eb', '#ef4444', '#10b981', '#f59e0b', '#7c3aed', '#ec4899', '#14b8a6', '#6b7280']
+
+export const useScoringStore = defineStore('scoring', () => {
+  // State
+  const teams = ref<Team[]>([])
+  const roundScores = ref<RoundScore[]>([])
+  const pointsPerLevel = ref(DEFAULT_POINTS_PER_LEVEL)
+
+  // Getters
+  const isScoringEnabled = computed(() => teams.value.length > 0)
+
+  const teamTotals = computed(() => {
+    const totals: Record<string, number> = {}
+    teams.value.forEach(team => {
+      totals[team.id] = 0
+    })
+    roundScores.value.forEach(score => {
+      if (score.teamId in totals) {
+        totals[score.teamId] += score.points
+      }
+    })
+    return totals
+  })
+
+  const standings = computed(() => {
+    return teams.value
+      .map(team => ({
+        ...team,
+        score: teamTotals.value[team.id] || 0,
+        correctGuesses: roundScores.value.filter(score => score.teamId === team.id).length
+      }))
+      .sort((a, b) => b.score - a.score || b.correctGuesses - a.correctGuesses)
+  })
+
+  const getScoreForImage = computed(() => {
+    return (imageId: string) => roundScores.value.find(score => score.imageId === imageId) || null
+  })
+
+  /**
+   * Points for a correct guess at the given reveal level.
+   * Level 1 (least revealed) is worth the most, the final level the least. Levels are scaled to the
+   * image's stage count, so a tile game's many steps score like the same image's stages do.
+   */
+  const pointsForLevel = (level: number, totalLevels: number, stageCount = totalLevels) => {
+    if (totalLevels < 1) return 0
+    const clampedLevel = Math.min(Math.max(level, 1), totalLevels)
+    // Stages still hidden, out of stageCount, rounded up so every correct guess scores
+    const hiddenStages = Math.ceil(((totalLevels - clampedLevel + 1) * stageCount) / totalLevels)
+    return hiddenStages * pointsPerLevel.value
+  }
+
+  // Actions
+  const addTeam = (name: string) => {
+    const team: Team = {
+      id: generateId(),
+      name: name.trim() || `Team ${teams.value.length + 1}`,
+      color: TEAM_COLORS[teams.value.length % TEAM_COLORS.length]
+    }
+    teams.value.push(team)
+    return team
+  }
+
+  const renameTeam = (id: string, name: string) => {
+    const team = teams.value.find(t => t.id === id)
+    if (team && name.trim()) {
+      team.name = name.trim()
+    }
+  }
+
+  const removeTeam = (id: string) => {
+    teams.value = teams.value.filter(team => team.id !== id)
+    roundScores.value = roundScores.value.filter(score => score.teamId !== id)
+  }
+
+  const setPointsPerLevel = (points: number) => {
+    if (Number.isInteger(points) && points > 0) {
+      pointsPerLevel.value = points
+    }
+  }
+
+  /**
+   * Award the current image to a team. Each image can only be won once,
+   * so awarding it again replaces the previous winner.
+   */
+  const awardPoints = (teamId: string, imageId: string, level: number, totalLevels: number, stageCount = totalLevels) => {
+    if (!teams.value.some(team => team.id === teamId)) {
+      throw new Error('Team not found')
+    }
+
+    const score: RoundScore = {
+      imageId,
+      teamId,
+      level,
+      points: pointsForLevel(level, totalLevels, stageCount),
+      awardedAt: new Date()
+    }
+
+    roundScores.value = [
+      ...roundScores.value.filter(existing => existing.imageId !== imageId),
+      score
+    ]
+    return score
+  }
+
+  const clearAward = (imageId: string) => {
+    roundScores.value = roundScores.value.filter(score => score.imageId !== imageId)
+  }
+
+  const resetScores = () => {
+    roundScores.value = []
+  }
+
+  const loadScores = () => {
+    try {
+      const stored = localStorage.getItem(STORAGE_KEY)
+      if (!stored) return
+
+      const parsed = JSON.parse(stored) as Partial<PersistedScores>
+      teams.value = Array.isArray(parsed.teams) ? parsed.teams : []
+      roundScores.value = Array.isArray(parsed.roundScores)
+        ? parsed.roundScores.map(score => ({ ...score, awardedAt: new Date(score.awardedAt) }))
+        : []
+      pointsPerLevel.value = typeof parsed.pointsPerLevel === 'number'
+        ? parsed.pointsPerLevel
+        : DEFAULT_POINTS_PER_LEVEL
+    } catch (err) {
+      console.error('Failed to load scores:', err)
+      teams.value = []
+      roundScores.value = []
+    }
+  }
+
+  const saveScores = () => {
+    try {
+      const data: PersistedScores = {
+        teams: teams.value,
+        roundScores: roundScores.value.map(score => ({
+          ...score,
+          awardedAt: score.awardedAt.toISOString()
+        })),
+        pointsPerLevel: pointsPerLevel.value
+      }
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(data))
+    } catch (err) {
+      console.error('Failed to save scores:', err)
+    }
+  }
+
+  // Restore scores from a previous session so a reload mid-game keeps the tally
+  if (typeof localStorage !== 'undefined') {
+    loadScores()
+  }
+
+  watch([teams, roundScores, pointsPerLevel], saveScores, { deep: true })
+
+  return {
+    // State
+    teams,
+    roundScores,
+    pointsPerLevel,
+
+    // Getters
+    isScoringEnabled,
+    teamTotals,
+    standings,
+    getScoreForImage,
+
+    // Actions
+    pointsForLevel,
+    addTeam,
+    renameTeam,
+    removeTeam,
+    setPointsPerLevel,
+    awardPoints,
+    clearAward,
+    resetScores,
+    loadScores,
+    saveScores
+  }
+})
@@ -1,34 +1,92 @@
 // Settings store for Name That Thing
 import { defineStore } from 'pinia'
 import { ref, reactive, watch, computed } from 'vue'
+import type { Category } from '@/types'
+import { generatePixelSizes } from '@/utils'
+import { stageCache, DEFAULT_STAGE_CACHE_MB } from '@/services/stageCache'
 
 export interface AppSettings {
   // Image Processing Settings
   maxImageSize: number
   minImageSize: number
   compressionQuality: number
+  processingConcurrency: number // Images processed at once by the worker pool
+  stageCacheSize: number // Megabytes of rendered reveal stages kept in memory
   
   // Pixelation Settings (higher numbers = more pixelated)
-  pixelationLevel1: number  // Most pixelated
-  pixelationLevel2: number  // Moderately pixelated
-  pixelationLevel3: number  // Slightly pixelated
-  // Level 4 is always original (0)
+  // One entry per obscured stage, most pixelated first.
+  // The final stage is always the original (0) and is not stored here.
+  pixelationLevels: number[]
+}
+
+// Total reveal stages (including the clear original) a category may define
+export const MIN_REVEAL_STAGES = 2
+export const MAX_REVEAL_STAGES = 10
+
+export const MIN_PIXEL_SIZE = 2
+export const MAX_PIXEL_SIZE = 128
+
+export const MIN_PROCESSING_CONCURRENCY = 1
+export const MAX_PROCESSING_CONCURRENCY = 8
+
+export const MIN_STAGE_CACHE_MB = 16
+export const MAX_STAGE_CACHE_MB = 1024
+
+// Leave cores free for the page; most machines do best with 2-4 workers
+const defaultProcessingConcurrency = (): number => {
+  const cores = typeof navigator !== 'undefined' ? navigator.hardwareConcurrency || 2 : 2
+  return Math.min(Math.max(cores - 1, MIN_PROCESSING_CONCURRENCY), 4)
 }
 
 const DEFAULT_SETTINGS: AppSettings = {
   maxImageSize: 1280,
   minImageSize: 800,
   compressionQuality: 0.9,
-  pixelationLevel1: 64,  // Most pixelated
-  pixelationLevel2: 32,  // Moderately pixelated
-  pixelationLevel3: 16,  // Slightly pixelated
+  processingConcurrency: defaultProcessingConcurrency(),
+  stageCacheSize: DEFAULT_STAGE_CACHE_MB,
+  pixelationLevels: [64, 32, 16],  // Most pixelated to slightly pixelated
+}
+
+// Copy of the defaults so the shared pixelationLevels array is never mutated
+const getDefaultSettings = (): AppSettings => ({
+  ...DEFAULT_SETTINGS,
+  pixelationLevels: [...DEFAULT_SETTINGS.pixelationLevels]
+})
+
+/**
+ * Check that a list of pixel sizes describes a valid set of obscured stages
+ */
+export const isValidPixelSizes = (sizes: unknown): sizes is number[] => {
+  return Array.isArray(sizes) &&
+    sizes.length >= MIN_REVEAL_STAGES - 1 &&
+    sizes.length <= MAX_REVEAL_STAGES - 1 &&
+    sizes.every(size => 
+      typeof size === 'number' && 
+      Number.isInteger(size) && 
+      size >= MIN_PIXEL_SIZE && 
+      size <= MAX_PIXEL_SIZE
+    )
+}
+
+/**
+ * Convert settings stored before reveal stages were configurable
+ * (pixelationLevel1..3) to the pixelationLevels list
+ */
+const migrateLegacySettings = (stored: Record<string, any>): Partial<AppSettings> => {
+  const { pixelationLevel1, pixelationLevel2, pixelationLevel3, ...rest } = stored
+  if (!Array.isArray(rest.pixelationLevels) && typeof pixelationLevel1 === 'number') {
+    const legacyLevels = [pixelationLevel1, pixelationLevel2, pixelationLevel3]
+      .filter((level): level is number => typeof level === 'number')
+    return { ...rest, pixelationLevels: legacyLevels }
+  }
+  return rest
 }
 
 const STORAGE_KEY = 'name-that-thing-settings'
 
 export const useSettingsStore = defineStore('settings', () => {
   // State
-  const settings = reactive<AppSettings>({ ...DEFAULT_SETTINGS })
+  const settings = reactive<AppSettings>(getDefaultSettings())
   const loading = ref(false)
   const error = ref<string | null>(null)
 
@@ -40,10 +98,13 @@ export const useSettingsStore = defineStore('settings', () => {
 
       const stored = localStorage.getItem(STORAGE_KEY)
       if (stored) {
-        const parsedSettings = JSON.parse(stored) as Partial<AppSettings>
+        const parsedSettings = migrateLegacySettings(JSON.parse(stored))
+        if (parsedSettings.pixelationLevels && !isValidPixelSizes(parsedSettings.pixelationLevels)) {
+          delete parsedSettings.pixelationLevels
+        }
         
         // Merge with defaults to handle new settings that might not exist in stored data
-        Object.assign(settings, DEFAULT_SETTINGS, parsedSettings)
+        Object.assign(settings, getDefaultSettings(), parsedSettings)
         
         console.log('Settings loaded from localStorage:', settings)
       } else {
@@ -54,7 +115,7 @@ export const useSettingsStore = defineStore('settings', () => {
       console.error('Failed to load settings:', err)
       
       // Reset to defaults if loading fails
-      Object.assign(settings, DEFAULT_SETTINGS)
+      Object.assign(settings, getDefaultSettings())
     } finally {
       loading.value = false
     }
@@ -90,17 +151,42 @@ export const useSettingsStore = defineStore('settings', () => {
   }
 
   const resetSettings = async () => {
-    Object.assign(settings, DEFAULT_SETTINGS)
+    Object.assign(settings, getDefaultSettings())
     await saveSettings()
   }
 
+  /**
+   * Pixel sizes used to process images for a category, including the final original (0).
+   * Categories without their own reveal stages use the app-wide pixelation levels.
+   */
+  const getPixelSizesForCategory = (category?: Pick<Category, 'revealStages'> | null): number[] => {
+    const stages = category?.revealStages && isValidPixelSizes(category.revealStages)
+      ? category.revealStages
+      : settings.pixelationLevels
+    return [...stages, 0]
+  }
+
+  /**
+   * Build reveal stages for a category with the given total stage count,
+   * spanning the same coarsest-to-finest range as the app-wide pixelation levels
+   */
+  const generateRevealStages = (stageCount: number): number[] => {
+    const count = Math.min(Math.max(Math.round(stageCount), MIN_REVEAL_STAGES), MAX_REVEAL_STAGES)
+    const levels = settings.pixelationLevels
+    const coarsest = levels[0]
+    const finest = levels.length > 1
+      ? levels[levels.length - 1]
+      : Math.max(MIN_PIXEL_SIZE, Math.round(coarsest / 4))
+    return generatePixelSizes(count, coarsest, finest)
+  }
+
   const exportSettings = () => {
     return JSON.stringify(settings, null, 2)
   }
 
   const importSettings = async (settingsJson: string) => {
     try {
-      const importedSettings = JSON.parse(settingsJson) as Partial<AppSettings>
+      const importedSettings = migrateLegacySettings(JSON.parse(settingsJson))
       
       // Validate imported settings
       const validSettings: Partial<AppSettings> = {}
@@ -123,30 +209,24 @@ export const useSettingsStore = defineStore('settings', () => {
         validSettings.compressionQuality = importedSettings.compressionQuality
       }
       
-      // Validate pixelation levels (4-128 range, must be integers)
-      if (typeof importedSettings.pixelationLevel1 === 'number' && 
-          importedSettings.pixelationLevel1 >= 4 && 
-          importedSettings.pixelationLevel1 <= 128 &&
-          Number.isInteger(importedSettings.pixelationLevel1)) {
-        validSettings.pixelationLevel1 = importedSettings.pixelationLevel1
+      if (typeof importedSettings.processingConcurrency === 'number' &&
+          Number.isInteger(importedSettings.processingConcurrency) &&
+          importedSettings.processingConcurrency >= MIN_PROCESSING_CONCURRENCY &&
+          importedSettings.processingConcurrency <= MAX_PROCESSING_CONCURRENCY) {
+        validSettings.processingConcurrency = importedSettings.processingConcurrency
       }
       
-      if (typeof importedSettings.pixelationLevel2 === 'number' && 
-          importedSettings.pixelationLevel2 >= 4 && 
-          importedSettings.pixelationLevel2 <= 128 &&
-          Number.isInteger(importedSettings.pixelationLevel2)) {
-        validSettings.pixelationLevel2 = importedSettings.pixelationLevel2
+      if (typeof importedSettings.stageCacheSize === 'number' &&
+          importedSettings.stageCacheSize >= MIN_STAGE_CACHE_MB &&
+          importedSettings.stageCacheSize <= MAX_STAGE_CACHE_MB) {
+        validSettings.stageCacheSize = importedSettings.stageCacheSize
       }
       
-      if (typeof importedSettings.pixelationLevel3 === 'number' && 
-          importedSettings.pixelationLevel3 >= 4 && 
-          importedSettings.pixelationLevel3 <= 128 &&
-          Number.isInteger(importedSettings.pixelationLevel3)) {
-        validSettings.pixelationLevel3 = importedSettings.pixelationLevel3
+      // Validate pixelation levels (one entry per obscured stage, integers in range)
+      if (isValidPixelSizes(importedSettings.pixelationLevels)) {
+        validSettings.pixelationLevels = [...importedSettings.pixelationLevels]
       }
       
-
-      
       await updateSettings(validSettings)
       return validSettings
     } catch (err) {
@@ -154,10 +234,21 @@ export const useSettingsStore = defineStore('settings', () => {
     }
   }
 
+  // Shrinking the limit evicts cached stages straight away
+  watch(
+    () => settings.stageCacheSize,
+    (size) => {
+      if (typeof size === 'number' && size >= MIN_STAGE_CACHE_MB) {
+        stageCache.setLimit(Math.min(size, MAX_STAGE_CACHE_MB))
+      }
+    },
+    { immediate: true }
+  )
+
   // Auto-save settings when they change (debounced)
   let saveTimeout: NodeJS.Timeout | null = null
   watch(
-    () => ({ ...settings }),
+    () => ({ ...settings, pixelationLevels: [...settings.pixelationLevels] }),
     () => {
       if (saveTimeout) {
         clearTimeout(saveTimeout)
@@ -181,6 +272,8 @@ export const useSettingsStore = defineStore('settings', () => {
     updateSetting,
     updateSettings,
     resetSettings,
+    getPixelSizesForCategory,
+    generateRevealStages,
     exportSettings,
     importSettings
   }
@@ -197,8 +290,8 @@ export const getSettings = (): AppSettings => {
     maxImageSize: store.settings.maxImageSize,
     minImageSize: store.settings.minImageSize,
     compressionQuality: store.settings.compressionQuality,
-    pixelationLevel1: store.settings.pixelationLevel1,
-    pixelationLevel2: store.settings.pixelationLevel2,
-    pixelationLevel3: store.settings.pixelationLevel3
+    processingConcurrency: store.settings.processingConcurrency,
+    stageCacheSize: store.settings.stageCacheSize,
+    pixelationLevels: [...store.settings.pixelationLevels]
   }
 }
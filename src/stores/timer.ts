@@ -0,0 +1,145 @@
+// Round timer store for Name That Thing
+import { defineStore } from 'pinia'
+import { ref, computed, watch } from 'vue'
+import { useGameStore } from '@/stores/game'
+
+const TICK_MS = 200
+
+export const useTimerStore = defineStore('timer', () => {
+  const gameStore = useGameStore()
+
+  // State
+  const remainingMs = ref(0)
+  const isRunning = ref(false)
+  let deadline = 0
+  let intervalId: ReturnType<typeof setInterval> | null = null
+
+  // Getters
+  const stageSeconds = computed(() => gameStore.gameSettings.stageSeconds)
+  const isEnabled = computed(() => stageSeconds.value > 0)
+  const remainingSeconds = computed(() => Math.ceil(remainingMs.value / 1000))
+
+  // Fraction of the current stage's time left, 1 when a stage starts
+  const fractionRemaining = computed(() => {
+    return isEnabled.value ? remainingMs.value / (stageSeconds.value * 1000) : 0
+  })
+
+  // Whether running out the clock would do anything
+  const hasNextStep = computed(() => {
+    return gameStore.canRevealMore || (gameStore.gameSettings.autoAdvance && gameStore.canGoNext)
+  })
+
+  // Actions
+  const clearTick = () => {
+    if (intervalId) {
+      clearInterval(intervalId)
+      intervalId = null
+    }
+  }
+
+  const tick = () => {
+    remainingMs.value = Math.max(0, deadline - Date.now())
+    if (remainingMs.value > 0) return
+
+    clearTick()
+    isRunning.value = false
+    // Advancing changes the reveal position, which restarts the countdown
+    if (gameStore.canRevealMore) {
+      gameStore.revealMore()
+    } else if (gameStore.gameSettings.autoAdvance && gameStore.canGoNext) {
+      gameStore.nextImage()
+    }
+  }
+
+  const run = (durationMs: number) => {
+    clearTick()
+    remainingMs.value = durationMs
+    deadline = Date.now() + durationMs
+    isRunning.value = true
+    intervalId = setInterval(tick, TICK_MS)
+  }
+
+  const stop = () => {
+    clearTick()
+    isRunning.value = false
+    remainingMs.value = 0
+  }
+
+  /**
+   * Give the current stage its full time, or stop when there is nothing left to time
+   */
+  const restart = () => {
+    if (isEnabled.value && gameStore.gameMode === 'playing' && hasNextStep.value) {
+      run(stageSeconds.value * 1000)
+    } else {
+      stop()
+    }
+  }
+
+  // Keep the time left so resuming continues the same stage
+  const freeze = () => {
+    if (!isRunning.value) return
+    clearTick()
+    remainingMs.value = Math.max(0, deadline - Date.now())
+    isRunning.value = false
+  }
+
+  const resume = () => {
+    if (isEnabled.value && gameStore.gameMode === 'playing' && remainingMs.value > 0 && hasNextStep.value) {
+      run(remainingMs.value)
+    } else {
+      restart()
+    }
+  }
+
+  // Any reveal or image change, manual or timed, starts a fresh countdown
+  watch(
+    () => [gameStore.currentImageIndex, gameStore.revealStep, gameStore.currentImages],
+    restart
+  )
+
+  watch(
+    () => gameStore.gameMode,
+    (mode, previousMode) => {
+      if (mode === 'paused') {
+        freeze()
+      } else if (mode === 'playing' && previousMode === 'paused') {
+        resume()
+      } else {
+        restart()
+      }
+    }
+  )
+
+  watch([stageSeconds, () => gameStore.gameSettings.autoAdvance], restart)
+
+  // The clock waits while a player who buzzed is answering
+  watch(
+    () => gameStore.answeringBuzz !== null,
+    (answering) => {
+      if (answering) {
+        freeze()
+      } else if (gameStore.gameMode === 'playing') {
+        resume()
+      }
+    }
+  )
+
+  return {
+    // State
+    remainingMs,
+    isRunning,
+
+    // Getters
+    stageSeconds,
+    isEnabled,
+    remainingSeconds,
+    fractionRemaining,
+
+    // Actions
+    restart,
+    freeze,
+    resume,
+    stop
+  }
+})
@@ -7,6 +7,9 @@ export interface Category {
   createdAt: Date;
   updatedAt: Date;
   imageIds: string[];
+  revealStages?: number[]; // Effect strength per obscured stage, most obscured first (original is always last)
+  revealEffect?: string; // Reveal effect id from the effect registry, defaults to pixelate
+  tags?: string[]; // Lower case, for searching
   settings?: {
     shuffleImages: boolean;
     showFileName: boolean;
@@ -24,18 +27,65 @@ export interface GameImage {
     width: number;
     height: number;
   };
-  pixelationLevels: {
-    level1: Blob | null; // Most pixelated (32x32)
-    level2: Blob | null; // Medium pixelated (16x16)
-    level3: Blob | null; // Light pixelated (8x8)
-    level4: Blob | null; // Original/clear
-  };
+  original: Blob; // Resized clear image with any edits applied; reveal stages are rendered from it when needed
+  source?: Blob; // Untouched upload, kept once the image is edited (loaded only for editing)
+  edits?: ImageEdits;
+  reveal?: ImageRevealSettings;
+  perceptualHash?: string; // Difference hash of the upload, for spotting duplicates
+  answer?: string; // What the image shows, for the presenter only
+  alternateAnswers?: string[]; // Other accepted answers (nicknames, spellings)
+  hints?: string[]; // Clues in the order the presenter should give them
+  tags?: string[]; // Lower case, for searching
+  difficulty?: number; // Host's rating from 1 (easy) to 5 (hard), used when ordering games by difficulty
   metadata: {
     uploadedAt: Date;
     processedAt: Date;
   };
 }
 
+// A saved selection of images from any categories, played like a category
+export interface Playlist {
+  id: string;
+  name: string;
+  description?: string;
+  imageIds: string[]; // In play order
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+// Non-destructive edits, always applied to the untouched upload
+export interface ImageEdits {
+  rotation: 0 | 90 | 180 | 270; // Clockwise
+  flipHorizontal: boolean; // Mirrored after rotating
+  flipVertical: boolean;
+  crop?: { x: number; y: number; width: number; height: number }; // Relative (0-1) to the rotated, flipped image
+}
+
+// Uploads are queued in IndexedDB until saved, so an interrupted upload can be resumed.
+// 'processing' only exists while a file is being worked on; after a reload it is pending again.
+export type UploadStatus = 'pending' | 'processing' | 'failed';
+
+export interface UploadQueueItem {
+  id: string;
+  batchId: string; // Files queued together
+  position: number; // Order within the batch
+  categoryId: string;
+  file: File;
+  status: UploadStatus;
+  attempts: number; // Times processing was started
+  error?: string; // Why the last attempt failed
+  addedAt: Date;
+}
+
+// What to do with an upload that looks like an image already in the library
+export type DuplicateAction = 'skip' | 'keep' | 'replace';
+
+// Per-image inputs to the reveal effects, fixed at upload so every rendering of a stage matches
+export interface ImageRevealSettings {
+  focus: { x: number; y: number }; // Zoom target, relative (0-1) to the image size
+  seed: number; // Seed for random layouts such as tile orders
+}
+
 export interface GameState {
   currentCategory: Category | null;
   currentImageIndex: number;
@@ -48,6 +98,82 @@ export interface GameState {
   };
 }
 
+// How the current image is revealed: pre-rendered stages, or the clear image under a grid of tiles
+export type RevealMode = 'stages' | 'tiles';
+
+// How a game orders its images: as stored, shuffled, or by difficulty
+export type ImageOrder = 'stored' | 'shuffle' | 'easy-to-hard' | 'hard-to-easy';
+
+export interface TileGrid {
+  columns: number;
+  rows: number;
+  uncovered: number[]; // Row-major tile indices that have been removed
+}
+
+// Game state shared with the audience window
+export interface GameSyncState {
+  currentImageIndex: number;
+  currentPixelationLevel: number;
+  uncoveredTiles: number[];
+  gameMode: GameState['gameMode'];
+  revealMode: RevealMode;
+  tileColumns: number;
+  tileRows: number;
+}
+
+// How a played image ended: guessed, or left without a correct guess
+export type PlayOutcome = 'guessed' | 'skipped';
+
+// One image played in one game, kept in the history for difficulty statistics
+export interface PlayRecord {
+  id: string; // gameId_imageId, so an image is recorded once per game
+  gameId: string;
+  gameName: string; // Category, playlist or search the game was started from
+  imageId: string;
+  categoryId: string; // The image's own category, also when played from a playlist
+  outcome: PlayOutcome;
+  revealStep: number; // 1-based reveal step when guessed, or the furthest step shown when skipped
+  revealStepCount: number; // Steps the image had, so stage and tile games can be compared
+  secondsSpent: number;
+  playedAt: Date;
+}
+
+// Solo practice schedule for one image, kept by the SM-2 spaced-repetition algorithm
+export interface PracticeSchedule {
+  imageId: string;
+  repetitions: number; // Reviews in a row that were remembered
+  easeFactor: number; // How quickly the interval grows, never below 1.3
+  intervalDays: number;
+  dueAt: Date;
+  lastReviewedAt: Date;
+  lastQuality: number; // SM-2 grade of the last review, 0 (forgotten) to 5 (perfect)
+}
+
+export interface Team {
+  id: string;
+  name: string;
+  color: string;
+}
+
+export interface RoundScore {
+  imageId: string;
+  teamId: string;
+  level: number; // Reveal level at which the team guessed correctly
+  points: number;
+  awardedAt: Date;
+}
+
+// A player buzzing in from their phone during a game
+export interface BuzzRecord {
+  id: string;
+  imageId: string;
+  revealStep: number; // Pixelation level, or tiles uncovered + 1 in tile mode
+  playerId: string;
+  playerName: string;
+  buzzedAt: Date;
+  result?: 'correct' | 'wrong'; // Unset while the player is answering
+}
+
 export interface AppSettings {
   theme: 'light' | 'dark';
   maxImageSize: number;
@@ -56,7 +182,7 @@ export interface AppSettings {
 }
 
 // Utility types
-export type PixelationLevel = 1 | 2 | 3 | 4;
+export type PixelationLevel = number; // 1-based reveal stage, the last being the original
 
 export interface ImageProcessingResult {
   success: boolean;
@@ -66,10 +192,69 @@ export interface ImageProcessingResult {
 
 export interface ExportData {
   version: string;
+  schemaVersion?: number; // IndexedDB schema the records were read from
   exportDate: string;
   categories: Category[];
   images: GameImage[];
-  blobs: Record<string, string>; // base64 encoded blobs
+  blobs: Record<string, string>; // base64 encoded originals keyed imageId_original (imageId_levelN before 1.2.0)
+  playlists?: Playlist[]; // From 1.4.0
+  history?: PlayRecord[]; // From 1.5.0
+  practice?: PracticeSchedule[]; // From 1.6.0
+}
+
+// Manifest stored as manifest.json at the root of a .ntt package
+export interface PackageManifest {
+  format: 'name-that-thing-package';
+  version: string;
+  exportDate: string;
+  scope: 'library' | 'category';
+  categories: Category[];
+  images: Array<Omit<GameImage, 'original' | 'source'> & {
+    original?: string; // Archive path of the image file
+    source?: string; // Archive path of the untouched upload, for edited images
+    levels?: string[]; // Packages before 3.0.0: a file per reveal stage, the original last
+  }>;
+  // Library packages only, from 3.2.0, 3.3.0 and 3.4.0
+  playlists?: Playlist[];
+  history?: PlayRecord[];
+  practice?: PracticeSchedule[];
+}
+
+// Merge import: how each category and image in an import file compares with the library
+export type ImportItemStatus = 'new' | 'identical' | 'conflict';
+export type ImportAction = 'import' | 'skip' | 'overwrite' | 'rename' | 'merge';
+
+export interface ImportImageItem {
+  id: string; // Id in the import file
+  name: string;
+  status: ImportItemStatus;
+  action: ImportAction;
+  existingId?: string; // Matching library image, if any
+}
+
+export interface ImportCategoryItem {
+  id: string; // Id in the import file
+  name: string;
+  status: ImportItemStatus;
+  action: ImportAction;
+  existingId?: string; // Matching library category, by id or name
+  existingName?: string;
+  renameTo?: string; // Name used when the action is rename
+  images: ImportImageItem[];
+}
+
+export interface ImportPreview {
+  format: 'package' | 'json';
+  scope: PackageManifest['scope'];
+  exportDate: string;
+  categories: ImportCategoryItem[];
+}
+
+export interface ImportResult {
+  categories: number;
+  images: number;
+  skipped: number;
+  failed: string[]; // Names of images that could not be read
 }
 
 // UI Event types
@@ -1,5 +1,7 @@
 // Utility functions for Name That Thing application
 
+import type { ImageEdits } from '@/types'
+
 /**
  * Generate a unique ID using crypto.randomUUID()
  */
@@ -71,6 +73,24 @@ export const loadImageFromFile = (file: File): Promise<HTMLImageElement> => {
   })
 }
 
+/**
+ * Target size for an image: wider than maxWidth scales down, narrower than minWidth scales up
+ */
+export const getResizedDimensions = (
+  width: number,
+  height: number,
+  maxWidth: number = 1280,
+  minWidth: number = 800
+): { width: number; height: number } => {
+  if (width > maxWidth) {
+    return { width: maxWidth, height: Math.round((height * maxWidth) / width) }
+  }
+  if (width < minWidth) {
+    return { width: minWidth, height: Math.round((height * minWidth) / width) }
+  }
+  return { width, height }
+}
+
 /**
  * Resize image to target width while maintaining aspect ratio
  * Scales down images larger than maxWidth and scales up images smaller than minWidth
@@ -95,18 +115,7 @@ export const resizeImage = (
     }
     
     // Calculate new dimensions
-    let { width, height } = img
-    
-    // Scale down if image is too large
-    if (width > maxWidth) {
-      height = Math.round((height * maxWidth) / width)
-      width = maxWidth
-    }
-    // Scale up if image is too small
-    else if (width < minWidth) {
-      height = Math.round((height * minWidth) / width)
-      width = minWidth
-    }
+    const { width, height } = getResizedDimensions(img.width, img.height, maxWidth, minWidth)
     
     canvas.width = width
     canvas.height = height
@@ -137,6 +146,80 @@ export const resizeImage = (
   })
 }
 
+/**
+ * Size of an image after rotating it by a multiple of 90 degrees
+ */
+export const getOrientedDimensions = (
+  width: number,
+  height: number,
+  rotation: ImageEdits['rotation']
+): { width: number; height: number } => {
+  return rotation % 180 === 0 ? { width, height } : { width: height, height: width }
+}
+
+/**
+ * Draw an image rotated and flipped onto a context sized to its oriented dimensions
+ */
+export const drawOrientedImage = (
+  ctx: CanvasRenderingContext2D,
+  source: CanvasImageSource,
+  width: number,
+  height: number,
+  edits: Pick<ImageEdits, 'rotation' | 'flipHorizontal' | 'flipVertical'>
+): void => {
+  const oriented = getOrientedDimensions(width, height, edits.rotation)
+  ctx.save()
+  ctx.translate(oriented.width / 2, oriented.height / 2)
+  // Flipping before rotating in call order mirrors the already-rotated image
+  ctx.scale(edits.flipHorizontal ? -1 : 1, edits.flipVertical ? -1 : 1)
+  ctx.rotate((edits.rotation * Math.PI) / 180)
+  ctx.drawImage(source, -width / 2, -height / 2, width, height)
+  ctx.restore()
+}
+
+/**
+ * Replace each pixelSize block of the image data with its average color (in place)
+ */
+export const pixelateImageData = (imageData: ImageData, pixelSize: number): void => {
+  const { data, width, height } = imageData
+  
+  for (let y = 0; y < height; y += pixelSize) {
+    for (let x = 0; x < width; x += pixelSize) {
+      // Get average color for the pixel block
+      let r = 0, g = 0, b = 0, a = 0, count = 0
+      
+      for (let dy = 0; dy < pixelSize && y + dy < height; dy++) {
+        for (let dx = 0; dx < pixelSize && x + dx < width; dx++) {
+          const idx = ((y + dy) * width + (x + dx)) * 4
+          r += data[idx]
+          g += data[idx + 1]
+          b += data[idx + 2]
+          a += data[idx + 3]
+          count++
+        }
+      }
+      
+      if (count > 0) {
+        r = Math.round(r / count)
+        g = Math.round(g / count)
+        b = Math.round(b / count)
+        a = Math.round(a / count)
+        
+        // Fill the pixel block with average color
+        for (let dy = 0; dy < pixelSize && y + dy < height; dy++) {
+          for (let dx = 0; dx < pixelSize && x + dx < width; dx++) {
+            const idx = ((y + dy) * width + (x + dx)) * 4
+            data[idx] = r
+            data[idx + 1] = g
+            data[idx + 2] = b
+            data[idx + 3] = a
+          }
+        }
+      }
+    }
+  }
+}
+
 /**
  * Create pixelated version of image
  */
@@ -177,44 +260,7 @@ export const createPixelatedImage = (
         return
       }
       
-      const data = imageData.data
-      
-      // Create pixelated effect
-      for (let y = 0; y < height; y += pixelSize) {
-        for (let x = 0; x < width; x += pixelSize) {
-          // Get average color for the pixel block
-          let r = 0, g = 0, b = 0, a = 0, count = 0
-          
-          for (let dy = 0; dy < pixelSize && y + dy < height; dy++) {
-            for (let dx = 0; dx < pixelSize && x + dx < width; dx++) {
-              const idx = ((y + dy) * width + (x + dx)) * 4
-              r += data[idx]
-              g += data[idx + 1]
-              b += data[idx + 2]
-              a += data[idx + 3]
-              count++
-            }
-          }
-          
-          if (count > 0) {
-            r = Math.round(r / count)
-            g = Math.round(g / count)
-            b = Math.round(b / count)
-            a = Math.round(a / count)
-            
-            // Fill the pixel block with average color
-            for (let dy = 0; dy < pixelSize && y + dy < height; dy++) {
-              for (let dx = 0; dx < pixelSize && x + dx < width; dx++) {
-                const idx = ((y + dy) * width + (x + dx)) * 4
-                data[idx] = r
-                data[idx + 1] = g
-                data[idx + 2] = b
-                data[idx + 3] = a
-              }
-            }
-          }
-        }
-      }
+      pixelateImageData(imageData, pixelSize)
       
       // Put the pixelated image data back with error handling
       try {
@@ -248,6 +294,32 @@ export const createPixelatedImage = (
   })
 }
 
+/**
+ * Generate pixel block sizes for a number of reveal stages.
+ * The clear original is the final stage, so only stageCount - 1 sizes are returned,
+ * spaced geometrically from coarsest to finest so each step reveals a similar amount.
+ */
+export const generatePixelSizes = (
+  stageCount: number,
+  coarsest: number = 64,
+  finest: number = 16
+): number[] => {
+  const obscuredCount = Math.max(1, Math.round(stageCount) - 1)
+  if (obscuredCount === 1) return [coarsest]
+
+  const ratio = Math.pow(finest / coarsest, 1 / (obscuredCount - 1))
+  const sizes: number[] = []
+  for (let i = 0; i < obscuredCount; i++) {
+    let size = Math.max(2, Math.round(coarsest * Math.pow(ratio, i)))
+    // Keep sizes strictly decreasing so no two stages look the same
+    if (sizes.length > 0 && size >= sizes[sizes.length - 1]) {
+      size = Math.max(2, sizes[sizes.length - 1] - 1)
+    }
+    sizes.push(size)
+  }
+  return sizes
+}
+
 /**
  * Create blob URL for display
  */
@@ -266,7 +338,13 @@ export const revokeBlobUrl = (url: string): void => {
  * Download data as file
  */
 export const downloadFile = (data: string, filename: string, type: string = 'application/json'): void => {
-  const blob = new Blob([data], { type })
+  downloadBlob(new Blob([data], { type }), filename)
+}
+
+/**
+ * Download a blob as file
+ */
+export const downloadBlob = (blob: Blob, filename: string): void => {
   const url = URL.createObjectURL(blob)
   const link = document.createElement('a')
   
@@ -276,7 +354,8 @@ export const downloadFile = (data: string, filename: string, type: string = 'app
   link.click()
   document.body.removeChild(link)
   
-  URL.revokeObjectURL(url)
+  // Large downloads may still be reading from the URL, so release it a little later
+  setTimeout(() => URL.revokeObjectURL(url), 10000)
 }
 
 /**
@@ -303,12 +382,26 @@ export const readFileAsText = (file: File): Promise<string> => {
 }
 
 /**
- * Shuffle array using Fisher-Yates algorithm
+ * Create a deterministic pseudo-random generator (mulberry32) returning values in [0, 1)
+ */
+export const createSeededRandom = (seed: number): (() => number) => {
+  let state = seed >>> 0
+  return () => {
+    state = (state + 0x6D2B79F5) >>> 0
+    let t = state
+    t = Math.imul(t ^ (t >>> 15), t | 1)
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61)
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296
+  }
+}
+
+/**
+ * Shuffle array using Fisher-Yates algorithm; pass a seeded random to repeat a shuffle
  */
-export const shuffleArray = <T>(array: T[]): T[] => {
+export const shuffleArray = <T>(array: T[], random: () => number = Math.random): T[] => {
   const shuffled = [...array]
   for (let i = shuffled.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1))
+    const j = Math.floor(random() * (i + 1))
     ;[shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]]
   }
   return shuffled
@@ -0,0 +1,86 @@
+// Image processing worker for Name That Thing
+// Decodes and resizes uploads, and renders reveal stages from stored originals, on an
+// OffscreenCanvas so neither blocks the page.
+
+import { getResizedDimensions } from '@/utils'
+import {
+  createRevealCanvas,
+  describeRevealStages,
+  encodeCanvas,
+  renderRevealStage,
+  type RevealOptions
+} from '@/services/revealEffects'
+import { computePerceptualHash } from '@/services/perceptualHash'
+import type { WorkerJobMessage, WorkerJobResponse } from '@/services/workerPool'
+import type { GameImage } from '@/types'
+
+export type ImageWorkerRequest =
+  | {
+      kind: 'process'
+      file: File
+      maxWidth: number
+      minWidth: number
+      quality: number
+    }
+  | {
+      kind: 'stages'
+      source: Blob // The image's stored original
+      quality: number
+      pixelSizes: number[]
+      reveal: RevealOptions
+    }
+
+export type ImageWorkerResult =
+  | { kind: 'process'; original: Blob; dimensions: GameImage['dimensions']; perceptualHash: string }
+  | { kind: 'stages'; levels: Blob[] } // Most obscured first; the source itself is the last level
+
+const drawToCanvas = async (source: Blob, size?: (width: number, height: number) => GameImage['dimensions']) => {
+  const bitmap = await createImageBitmap(source)
+  const dimensions = size ? size(bitmap.width, bitmap.height) : { width: bitmap.width, height: bitmap.height }
+
+  const canvas = createRevealCanvas(dimensions.width, dimensions.height) as OffscreenCanvas
+  const ctx = canvas.getContext('2d')
+  if (!ctx) {
+    bitmap.close()
+    throw new Error('Could not get canvas context')
+  }
+  ctx.imageSmoothingEnabled = true
+  ctx.imageSmoothingQuality = 'high'
+  ctx.drawImage(bitmap, 0, 0, dimensions.width, dimensions.height)
+  bitmap.close()
+  return { canvas, dimensions }
+}
+
+const processFile = async (request: Extract<ImageWorkerRequest, { kind: 'process' }>): Promise<ImageWorkerResult> => {
+  const { canvas, dimensions } = await drawToCanvas(request.file, (width, height) =>
+    getResizedDimensions(width, height, request.maxWidth, request.minWidth)
+  )
+  const perceptualHash = computePerceptualHash(canvas)
+  const original = await encodeCanvas(canvas, request.quality)
+  if (!original || original.size === 0) {
+    throw new Error('Failed to create resized image')
+  }
+  return { kind: 'process', original, dimensions, perceptualHash }
+}
+
+const renderStages = async (request: Extract<ImageWorkerRequest, { kind: 'stages' }>): Promise<ImageWorkerResult> => {
+  const { canvas } = await drawToCanvas(request.source)
+  const { effect, stages } = describeRevealStages(request.pixelSizes, request.reveal)
+  const levels: Blob[] = []
+  for (const stage of stages) {
+    levels.push(stage ? await renderRevealStage(canvas, effect, stage, request.quality) : request.source)
+  }
+  return { kind: 'stages', levels }
+}
+
+self.onmessage = async (event: MessageEvent<WorkerJobMessage<ImageWorkerRequest>>) => {
+  const { jobId, payload } = event.data
+  let response: WorkerJobResponse<ImageWorkerResult>
+  try {
+    const result = payload.kind === 'process' ? await processFile(payload) : await renderStages(payload)
+    response = { jobId, result }
+  } catch (error) {
+    response = { jobId, error: error instanceof Error ? error.message : 'Unknown error occurred' }
+  }
+  self.postMessage(response)
+}